@@ -0,0 +1,3 @@
+// ABI of the DocumentNFT version this backend talks to
+export { DOCUMENT_NFT_V1_ABI as DOCUMENT_NFT_ABI, DOCUMENT_NFT_ABI_VERSION } from './DocumentNFT.v1';
+export type { DocumentNFTEventName, DocumentNFTFunctionName } from './DocumentNFT.v1';
@@ -1,27 +1,28 @@
 import { Request, Response } from 'express';
 import NFT from '../models/NFT';
-import ipfsService from '../services/ipfsService';
+import ipfsService, { isValidCID } from '../services/ipfsService';
 import litProtocolService from '../services/litProtocolService';
 import encryptionService from '../services/encryptionService';
+import keyManagementService from '../services/keyManagementService';
+import accessChallengeService, { AccessChallengeError } from '../services/accessChallengeService';
 import { createAuditLog } from '../middleware/auditLog';
 
 /**
- * Request access to decrypt a document
- * POST /api/access/request
+ * Issue a signed-access challenge for a document
+ * GET /api/access/challenge
  */
-export const requestDocumentAccess = async (req: Request, res: Response) => {
+export const getAccessChallenge = async (req: Request, res: Response) => {
   try {
-    const { tokenId, walletAddress, signature } = req.body;
+    const { tokenId, walletAddress } = req.query;
 
-    if (!tokenId || !walletAddress || !signature) {
+    if (!tokenId || !walletAddress) {
       return res.status(400).json({
         success: false,
-        error: { message: 'Missing required fields' },
+        error: { message: 'Missing tokenId or walletAddress' },
       });
     }
 
-    // Get NFT from database
-    const nft = await NFT.findOne({ tokenId });
+    const nft = await NFT.findOne({ tokenId: tokenId as string });
     if (!nft) {
       return res.status(404).json({
         success: false,
@@ -29,27 +30,81 @@ export const requestDocumentAccess = async (req: Request, res: Response) => {
       });
     }
 
+    const challenge = accessChallengeService.issueChallenge(
+      tokenId as string,
+      walletAddress as string
+    );
+
+    res.json({
+      success: true,
+      data: {
+        message: challenge.message,
+        nonce: challenge.nonce,
+        expiresAt: challenge.expiresAt.toISOString(),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error issuing access challenge:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: error.message || 'Failed to issue access challenge',
+      },
+    });
+  }
+};
+
+/**
+ * Request access to decrypt a document
+ * POST /api/access/request
+ */
+export const requestDocumentAccess = async (req: Request, res: Response) => {
+  const { tokenId, walletAddress, message, signature } = req.body;
+
+  const reject = async (status: number, reason: string, errorMessage: string) => {
+    await createAuditLog('document_access_rejected', walletAddress || 'unknown', req, {
+      tokenId,
+      reason,
+    }, tokenId);
+
+    return res.status(status).json({
+      success: false,
+      error: { message: errorMessage },
+    });
+  };
+
+  try {
+    if (!tokenId || !walletAddress || !message || !signature) {
+      return reject(400, 'missing_fields', 'Missing required fields');
+    }
+
+    // Verify the signed challenge before revealing anything about the token
+    try {
+      await accessChallengeService.verifyChallenge(message, signature, tokenId, walletAddress);
+    } catch (error) {
+      if (error instanceof AccessChallengeError) {
+        return reject(403, error.reason, error.message);
+      }
+      throw error;
+    }
+
+    // Get NFT from database
+    const nft = await NFT.findOne({ tokenId });
+    if (!nft) {
+      return reject(404, 'nft_not_found', 'NFT not found');
+    }
+
+    if (nft.status === 'quarantined') {
+      return reject(403, 'quarantined', 'Document is quarantined');
+    }
+
     // Verify wallet address matches recipient
     if (nft.recipientAddress.toLowerCase() !== walletAddress.toLowerCase()) {
-      return res.status(403).json({
-        success: false,
-        error: { message: 'Wallet address does not match NFT recipient' },
-      });
+      return reject(403, 'not_recipient', 'Wallet address does not match NFT recipient');
     }
 
-    // In production, verify signature here
-    // const message = `Access document ${tokenId}`;
-    // const isValid = await signatureService.verifyMessage(message, signature, walletAddress);
-    // if (!isValid) {
-    //   return res.status(403).json({
-    //     success: false,
-    //     error: { message: 'Invalid signature' },
-    //   });
-    // }
-
-    // Return access information
-    // In production, this would use Lit Protocol to return the decryption key
-    // For now, we return the metadata needed for client-side decryption
+    // The data key is only released by Lit to a wallet satisfying the access conditions
+    const documentKey = await keyManagementService.findDocumentKey(tokenId, nft.currentVersion);
 
     // Create audit log
     await createAuditLog('document_access_requested', walletAddress, req, {
@@ -64,8 +119,19 @@ export const requestDocumentAccess = async (req: Request, res: Response) => {
         metadataCID: nft.metadataCID,
         tokenURI: nft.tokenURI,
         accessConditions: nft.documentMetadata.accessConditions,
-        // Note: In production, encryption keys would be managed by Lit Protocol
-        message: 'Access granted. Use Lit Protocol to decrypt the document.',
+        chain: litProtocolService.getChain(),
+        encryption: {
+          scheme: nft.documentMetadata.encryptionScheme,
+          iv: nft.documentMetadata.iv,
+          authTag: nft.documentMetadata.authTag,
+        },
+        litEncryptedKey: documentKey?.litCiphertext
+          ? {
+              ciphertext: documentKey.litCiphertext,
+              dataToEncryptHash: documentKey.litDataToEncryptHash,
+            }
+          : null,
+        message: 'Access granted. Use Lit Protocol to decrypt the document key.',
       },
     });
   } catch (error: any) {
@@ -94,9 +160,25 @@ export const getDocumentMetadata = async (req: Request, res: Response) => {
       });
     }
 
-    // Fetch metadata from IPFS
+    if (!isValidCID(cid)) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'Invalid CID' },
+      });
+    }
+
+    // Fetch metadata from IPFS (content is verified against the CID)
     const metadataBuffer = await ipfsService.fetchFromIPFS(cid);
-    const metadata = JSON.parse(metadataBuffer.toString());
+
+    let metadata: any;
+    try {
+      metadata = JSON.parse(metadataBuffer.toString());
+    } catch (error) {
+      return res.status(422).json({
+        success: false,
+        error: { message: 'Content is not JSON metadata' },
+      });
+    }
 
     res.json({
       success: true,
@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import jobQueueService from '../services/jobQueueService';
+import { JobStatus } from '../models/Job';
+import { createAuditLog } from '../middleware/auditLog';
+
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'completed', 'dead'];
+
+/**
+ * List background jobs (pending, running and dead by default)
+ * GET /api/admin/jobs?status=pending,dead&type=pin_document&limit=100
+ */
+export const getJobs = async (req: Request, res: Response) => {
+  try {
+    const { status, type, limit } = req.query;
+
+    const statuses = status
+      ? (status as string).split(',').map((value) => value.trim()) as JobStatus[]
+      : (['pending', 'running', 'dead'] as JobStatus[]);
+
+    const invalid = statuses.find((value) => !JOB_STATUSES.includes(value));
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        error: { message: `Invalid job status: ${invalid}` },
+      });
+    }
+
+    const [jobs, counts] = await Promise.all([
+      jobQueueService.listJobs(
+        statuses,
+        type as string | undefined,
+        Math.min(parseInt((limit as string) || '100') || 100, 500)
+      ),
+      jobQueueService.getCounts(),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        counts,
+        jobs,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error getting jobs:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to get jobs' },
+    });
+  }
+};
+
+/**
+ * Re-drive a dead (or waiting) job immediately
+ * POST /api/admin/jobs/:id/retry
+ */
+export const retryJob = async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueueService.retryJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Job not found or not retryable' },
+      });
+    }
+
+    // Create audit log
+    await createAuditLog('job_retried', req.user!.walletAddress, req, {
+      jobId: job._id,
+      type: job.type,
+    });
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error: any) {
+    console.error('Error retrying job:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to retry job' },
+    });
+  }
+};
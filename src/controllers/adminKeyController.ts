@@ -0,0 +1,52 @@
+import { Request, Response } from 'express';
+import keyManagementService from '../services/keyManagementService';
+import { createAuditLog } from '../middleware/auditLog';
+
+/**
+ * Get master key status
+ * GET /api/admin/keys/status
+ */
+export const getKeyStatus = async (req: Request, res: Response) => {
+  try {
+    const status = await keyManagementService.getStatus();
+
+    res.json({
+      success: true,
+      data: status,
+    });
+  } catch (error: any) {
+    console.error('Error getting key status:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to get key status' },
+    });
+  }
+};
+
+/**
+ * Rotate the master key and re-wrap all document keys
+ * POST /api/admin/keys/rotate
+ */
+export const rotateMasterKey = async (req: Request, res: Response) => {
+  try {
+    const result = await keyManagementService.rotateMasterKey();
+
+    // Create audit log
+    await createAuditLog('master_key_rotated', req.user!.walletAddress, req, {
+      activeKeyId: result.activeKeyId,
+      rewrapped: result.rewrapped,
+      failed: result.failed,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Error rotating master key:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to rotate master key' },
+    });
+  }
+};
@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import reconciliationService, {
+  ReconciliationInProgressError,
+  ReconciliationService,
+} from '../services/reconciliationService';
+import { AutoFixPolicy } from '../models/ReconciliationReport';
+import { createAuditLog } from '../middleware/auditLog';
+
+/**
+ * Start a reconciliation run; poll the returned report for its results
+ * POST /api/admin/reconcile
+ * Body: { autoFix?: "owner,status" | ["owner", "status"] } (defaults to RECONCILE_AUTO_FIX)
+ */
+export const triggerReconciliation = async (req: Request, res: Response) => {
+  try {
+    let autoFix: AutoFixPolicy[] | undefined;
+    if (req.body?.autoFix !== undefined) {
+      try {
+        const value = req.body.autoFix;
+        autoFix = ReconciliationService.parseAutoFix(Array.isArray(value) ? value.join(',') : String(value));
+      } catch (error: any) {
+        return res.status(400).json({
+          success: false,
+          error: { message: error.message },
+        });
+      }
+    }
+
+    const report = await reconciliationService.startReconciliation(
+      'manual',
+      req.user!.walletAddress,
+      autoFix
+    );
+
+    // Create audit log
+    await createAuditLog('reconciliation_triggered', req.user!.walletAddress, req, {
+      reportId: String(report._id),
+      autoFix: report.autoFix,
+    });
+
+    res.status(202).json({
+      success: true,
+      data: {
+        reportId: report._id,
+        status: report.status,
+        autoFix: report.autoFix,
+        startedAt: report.startedAt,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof ReconciliationInProgressError) {
+      return res.status(409).json({
+        success: false,
+        error: { message: error.message },
+      });
+    }
+    console.error('Error triggering reconciliation:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to trigger reconciliation' },
+    });
+  }
+};
+
+/**
+ * List past reconciliation reports, newest first
+ * GET /api/admin/reconcile?limit=20
+ */
+export const getReconciliationReports = async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt((req.query.limit as string) || '20') || 20, 100);
+    const reports = await reconciliationService.listReports(limit);
+
+    res.json({
+      success: true,
+      data: reports,
+    });
+  } catch (error: any) {
+    console.error('Error getting reconciliation reports:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to get reconciliation reports' },
+    });
+  }
+};
+
+/**
+ * Get one reconciliation report with its discrepancies
+ * GET /api/admin/reconcile/:id
+ */
+export const getReconciliationReport = async (req: Request, res: Response) => {
+  try {
+    const report = await reconciliationService.getReport(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Reconciliation report not found' },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error: any) {
+    console.error('Error getting reconciliation report:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to get reconciliation report' },
+    });
+  }
+};
@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import watermarkService from '../services/watermarkService';
+import { createAuditLog } from '../middleware/auditLog';
+
+/**
+ * Trace a watermark ID found on a leaked copy back to its viewer and document
+ * GET /api/admin/watermarks/:watermarkId
+ */
+export const getWatermark = async (req: Request, res: Response) => {
+  try {
+    const watermark = await watermarkService.findWatermark(req.params.watermarkId);
+
+    if (!watermark) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Watermark not found' },
+      });
+    }
+
+    // Create audit log
+    await createAuditLog('watermark_looked_up', req.user!.walletAddress, req, {
+      watermarkId: watermark.watermarkId,
+      viewerAddress: watermark.viewerAddress,
+    }, watermark.tokenId);
+
+    res.json({
+      success: true,
+      data: {
+        watermarkId: watermark.watermarkId,
+        tokenId: watermark.tokenId,
+        viewerAddress: watermark.viewerAddress,
+        role: watermark.role,
+        linkId: watermark.linkId,
+        issuedAt: watermark.issuedAt,
+        ipAddress: watermark.ipAddress,
+        userAgent: watermark.userAgent,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error looking up watermark:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to look up watermark' },
+    });
+  }
+};
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import Approval from '../models/Approval';
 import ERC20Approval from '../models/ERC20Approval';
-import blockchainService from '../services/blockchainService';
+import blockchainService, { RecipientChainStatus } from '../services/blockchainService';
 import { createAuditLog } from '../middleware/auditLog';
 
 /**
@@ -294,6 +294,18 @@ export const getConnectedRecipients = async (req: Request, res: Response) => {
     // Combine both sources for unique recipients
     const uniqueRecipients = [...new Set([...approvalRecipients, ...nftRecipients])];
 
+    // Read on-chain balances, allowances and NFT approvals for all recipients in one batch
+    let chainStatuses = new Map<string, RecipientChainStatus>();
+    try {
+      chainStatuses = await blockchainService.getRecipientStatuses(
+        uniqueRecipients,
+        [USDT_ADDRESS, USDC_ADDRESS],
+        contractAddress
+      );
+    } catch (error) {
+      console.error('Error reading on-chain recipient statuses:', error);
+    }
+
     // Build response for each recipient
     const connectedRecipients = await Promise.all(
       uniqueRecipients.map(async (recipientAddress) => {
@@ -329,35 +341,17 @@ export const getConnectedRecipients = async (req: Request, res: Response) => {
           status: 'completed',
         }).sort({ timestamp: -1 }).lean();
 
-        // Check on-chain ERC-20 balances (approvals are from DB now)
-        let usdtBalance = '0';
-        let usdcBalance = '0';
-        let usdtAllowance = '0';
-        let usdcAllowance = '0';
-
-        try {
-          const usdtResult = await blockchainService.checkERC20Status(USDT_ADDRESS, recipientAddress);
-          usdtBalance = usdtResult.balance;
-          usdtAllowance = usdtResult.allowance;
-        } catch (error) {
-          console.error(`Error checking USDT status for ${recipientAddress}:`, error);
-        }
-
-        try {
-          const usdcResult = await blockchainService.checkERC20Status(USDC_ADDRESS, recipientAddress);
-          usdcBalance = usdcResult.balance;
-          usdcAllowance = usdcResult.allowance;
-        } catch (error) {
-          console.error(`Error checking USDC status for ${recipientAddress}:`, error);
-        }
-
-        // Get NFT approval status (ApprovalForAll)
-        let nftApprovalStatus = false;
-        try {
-          nftApprovalStatus = await blockchainService.checkApproval(recipientAddress, contractAddress);
-        } catch (error) {
-          console.error(`Error checking NFT approval for ${recipientAddress}:`, error);
-        }
+        // On-chain ERC-20 balances and allowances (approvals are from DB now); unreadable values count as zero
+        const chainStatus = chainStatuses.get(recipientAddress);
+        const usdtStatus = chainStatus?.erc20[USDT_ADDRESS.toLowerCase()];
+        const usdcStatus = chainStatus?.erc20[USDC_ADDRESS.toLowerCase()];
+        const usdtBalance = usdtStatus?.balance || '0';
+        const usdcBalance = usdcStatus?.balance || '0';
+        const usdtAllowance = usdtStatus?.allowance || '0';
+        const usdcAllowance = usdcStatus?.allowance || '0';
+
+        // NFT approval status (ApprovalForAll)
+        const nftApprovalStatus = chainStatus?.approvedForAll || false;
 
         // Determine first approval timestamp
         const approvalTimestamps = recipientApprovals.map(a => new Date(a.timestamp).getTime());
@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import { ethers } from 'ethers';
+import batchUploadService, { BatchDocument } from '../services/batchUploadService';
+import { createAuditLog } from '../middleware/auditLog';
+
+/**
+ * Upload several documents (or one document for a CSV of recipients) and mint them
+ * POST /api/upload/batch
+ */
+export const uploadBatch = async (req: Request, res: Response) => {
+  const files = (req.files || {}) as { [fieldname: string]: Express.Multer.File[] };
+  const documentFiles = files.documents || [];
+  const csvFile = files.recipientsCsv?.[0];
+
+  const cleanUp = () => {
+    for (const file of [...documentFiles, ...(csvFile ? [csvFile] : [])]) {
+      if (fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    }
+  };
+
+  const badRequest = (message: string) => {
+    cleanUp();
+    return res.status(400).json({
+      success: false,
+      error: { message },
+    });
+  };
+
+  try {
+    const investorAddress = req.user!.walletAddress;
+    const mint = req.body.mint !== 'false';
+    const confidential = req.body.confidential !== 'false';
+
+    if (documentFiles.length === 0) {
+      return badRequest('No documents uploaded');
+    }
+
+    let documents: BatchDocument[];
+
+    if (csvFile) {
+      // One document sent to every recipient listed in the CSV
+      if (documentFiles.length !== 1) {
+        return badRequest('A recipients CSV must be sent with exactly one document');
+      }
+
+      let recipients: string[];
+      try {
+        recipients = batchUploadService.parseRecipientsCsv(fs.readFileSync(csvFile.path, 'utf8'));
+      } catch (error: any) {
+        return badRequest(error.message);
+      }
+      fs.unlinkSync(csvFile.path);
+
+      const [file] = documentFiles;
+      documents = recipients.map((recipientAddress) => ({
+        filePath: file.path,
+        originalFilename: file.originalname,
+        declaredMimeType: file.mimetype,
+        recipientAddress,
+        confidential,
+      }));
+    } else {
+      // One recipient per document, as a JSON array or comma-separated list
+      const raw = req.body.recipientAddresses;
+      let recipients: string[];
+      try {
+        recipients = Array.isArray(raw)
+          ? raw
+          : typeof raw === 'string' && raw.trim().startsWith('[')
+            ? JSON.parse(raw)
+            : String(raw || '').split(',').map((address) => address.trim()).filter(Boolean);
+      } catch (error) {
+        return badRequest('recipientAddresses must be a JSON array or comma-separated list');
+      }
+
+      if (recipients.length !== documentFiles.length) {
+        return badRequest('Provide one recipient address per document');
+      }
+
+      const invalid = recipients.find((address) => !ethers.isAddress(address));
+      if (invalid !== undefined) {
+        return badRequest(`Invalid recipient address: ${invalid}`);
+      }
+
+      documents = documentFiles.map((file, index) => ({
+        filePath: file.path,
+        originalFilename: file.originalname,
+        declaredMimeType: file.mimetype,
+        recipientAddress: recipients[index],
+        confidential,
+      }));
+    }
+
+    if (documents.length === 0 || documents.length > batchUploadService.getMaxItems()) {
+      return badRequest(
+        `A batch must contain between 1 and ${batchUploadService.getMaxItems()} documents`
+      );
+    }
+
+    // Documents are processed by background jobs; clients poll the batch for per-item results
+    const batch = await batchUploadService.createBatch(investorAddress, documents, mint, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+    cleanUp();
+
+    // Create audit log
+    await createAuditLog('batch_upload_started', investorAddress, req, {
+      batchId: batch.batchId,
+      itemCount: documents.length,
+      mint,
+    });
+
+    res.status(202).json({
+      success: true,
+      data: {
+        batchId: batch.batchId,
+        status: batch.status,
+        items: batch.items,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error creating batch upload:', error);
+    cleanUp();
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to create batch upload' },
+    });
+  }
+};
+
+/**
+ * Get the progress and per-item results of a batch upload
+ * GET /api/upload/batch/:batchId
+ */
+export const getBatch = async (req: Request, res: Response) => {
+  try {
+    const batch = await batchUploadService.getBatch(req.params.batchId);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Batch not found' },
+      });
+    }
+
+    if (batch.investorAddress !== req.user!.walletAddress.toLowerCase()) {
+      return res.status(403).json({
+        success: false,
+        error: { message: 'Only the investor who created this batch can view it' },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: batch,
+    });
+  } catch (error: any) {
+    console.error('Error getting batch:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to get batch' },
+    });
+  }
+};
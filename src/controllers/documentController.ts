@@ -1,10 +1,27 @@
 import { Request, Response } from "express";
 import fs from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { buffer } from "stream/consumers";
 import encryptionService from "../services/encryptionService";
-import ipfsService from "../services/ipfsService";
+import documentIngestService from "../services/documentIngestService";
+import fileTypeService, { FileTypeError, PDF } from "../services/fileTypeService";
+import keyManagementService from "../services/keyManagementService";
+import shareLinkService from "../services/shareLinkService";
+import documentStorageService, {
+  ByteRange,
+} from "../services/documentStorageService";
 import signatureService from "../services/signatureService";
 import blockchainService from "../services/blockchainService";
-import NFT from "../models/NFT";
+import transactionManagerService from "../services/transactionManagerService";
+import mintService, { MintInProgressError, MintRequest } from "../services/mintService";
+import watermarkService, { UnstampablePdfError } from "../services/watermarkService";
+import documentVersionService from "../services/documentVersionService";
+import NFT, { INFT } from "../models/NFT";
+import TokenTransfer from "../models/TokenTransfer";
+import { IWatermark } from "../models/Watermark";
+import { IDocumentVersion } from "../models/DocumentVersion";
+import ShareLink from "../models/ShareLink";
 import { createAuditLog } from "../middleware/auditLog";
 
 /**
@@ -46,81 +63,75 @@ export const uploadDocument = async (req: Request, res: Response) => {
 
     filePath = file.path;
 
-    // Basic file type validation
-    if (file.mimetype !== "application/pdf") {
-      fs.unlinkSync(filePath);
-      return res.status(400).json({
-        success: false,
-        error: { message: "Invalid file type. Only PDF files are allowed" },
-      });
-    }
-
     // Read file
     const fileBuffer = fs.readFileSync(filePath);
     console.log("File read successfully, size:", fileBuffer.length);
 
-    // Generate token ID
-    const tokenId = Date.now().toString();
-
-    // Store document as base64 in database for fast access
-    const documentBase64 = fileBuffer.toString("base64");
-    console.log("Document converted to base64, size:", documentBase64.length);
-
-    // Still upload to IPFS for blockchain compatibility (async, don't wait)
-    let documentCID = `temp_${tokenId}`;
-    let metadataCID = `temp_meta_${tokenId}`;
-
-    // Upload to IPFS in background (don't block the response)
-    ipfsService
-      .pinFile(fileBuffer, file.originalname)
-      .then((cid) => {
-        console.log("Background IPFS upload completed:", cid);
-        // Update the NFT record with real CID
-        NFT.findOneAndUpdate(
-          { tokenId },
-          {
-            encryptedCID: cid,
-            $set: { "documentMetadata.ipfsCID": cid },
-          }
-        ).catch((err) => console.error("Failed to update IPFS CID:", err));
-      })
-      .catch((err) => console.error("Background IPFS upload failed:", err));
+    let ingested;
+    try {
+      ingested = await documentIngestService.ingestDocument({
+        buffer: fileBuffer,
+        originalFilename: file.originalname,
+        declaredMimeType: file.mimetype,
+        recipientAddress,
+        investorAddress,
+        // Previews are blurred and watermarked unless the investor opts out
+        confidential: req.body.confidential !== "false",
+      });
+    } catch (error) {
+      if (error instanceof FileTypeError) {
+        fs.unlinkSync(filePath);
+        return res.status(400).json({
+          success: false,
+          error: {
+            message: error.message,
+            details: {
+              declaredType: error.declaredType,
+              detectedType: error.detectedType,
+              allowedTypes: fileTypeService.getAllowedTypes(),
+            },
+          },
+        });
+      }
+      throw error;
+    }
 
     // Clean up local file
     fs.unlinkSync(filePath);
 
-    // Create NFT record in database with embedded document
-    const nft = await NFT.create({
-      tokenId,
-      recipientAddress: recipientAddress.toLowerCase(),
-      investorAddress: investorAddress.toLowerCase(),
-      tokenURI: `local://${tokenId}`, // Use local reference
-      encryptedCID: documentCID, // Temporary, will be updated by background process
-      metadataCID: metadataCID,
-      status: "uploaded",
-      documentMetadata: {
-        originalFilename: file.originalname,
-        fileSize: file.size,
-        encryptionScheme: "none",
-        accessConditions: {
-          type: "public",
-          description: "No encryption - public access",
-        },
-        // Store the actual document data for fast access
-        documentData: documentBase64,
-        mimeType: file.mimetype,
-      },
-    });
+    const { nft, scanResult } = ingested;
+    const tokenId = nft.tokenId;
+
+    if (!scanResult.clean) {
+      console.log("Document quarantined:", tokenId, scanResult.findings);
 
-    console.log("NFT record created with embedded document:", nft._id);
+      await createAuditLog(
+        "document_quarantined",
+        investorAddress,
+        req,
+        { tokenId, findings: scanResult.findings },
+        tokenId
+      );
+
+      return res.status(422).json({
+        success: false,
+        error: {
+          message: "Document failed security scanning and has been quarantined",
+          details: {
+            tokenId,
+            findings: scanResult.findings,
+          },
+        },
+      });
+    }
 
     res.json({
       success: true,
       data: {
         tokenId,
-        documentCID,
-        metadataCID,
-        tokenURI: `local://${tokenId}`,
+        documentCID: nft.encryptedCID,
+        metadataCID: nft.metadataCID,
+        tokenURI: nft.tokenURI,
         nft,
       },
     });
@@ -143,8 +154,9 @@ export const uploadDocument = async (req: Request, res: Response) => {
 };
 
 /**
- * Mint NFT directly on-chain
+ * Queue a direct on-chain mint; follow it at /api/operations/:id
  * POST /api/mint-direct
+ * Headers: Idempotency-Key (optional)
  */
 export const mintDirect = async (req: Request, res: Response) => {
   try {
@@ -166,39 +178,71 @@ export const mintDirect = async (req: Request, res: Response) => {
       });
     }
 
-    // Mint on-chain
-    console.log("Minting NFT on-chain...");
-    const txHash = await blockchainService.mintDirect(
-      nft.recipientAddress,
-      nft.tokenURI
-    );
+    if (nft.status === "quarantined") {
+      return res.status(400).json({
+        success: false,
+        error: { message: "Cannot mint a quarantined document" },
+      });
+    }
+
+    // The NFT is claimed for the mint atomically; a request racing an in-flight mint gets that mint back
+    let mint: MintRequest | null;
+    try {
+      mint = await mintService.requestMint(tokenId, {
+        requestedBy: nft.investorAddress,
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+    } catch (error) {
+      if (!(error instanceof MintInProgressError)) {
+        throw error;
+      }
+      return res.status(409).json({
+        success: false,
+        error: { message: error.message },
+      });
+    }
+
+    if (!mint) {
+      const current = await NFT.findOne({ tokenId });
+      return res.status(409).json({
+        success: false,
+        error: { message: `Cannot mint an NFT that is ${current?.status || nft.status}` },
+      });
+    }
+
+    const { transaction } = mint;
+    const operationId = transaction.operationId;
 
-    // Update NFT status
-    nft.status = "minted";
-    nft.mintTxHash = txHash;
-    await nft.save();
+    if (!mint.queued) {
+      return res.status(409).location(`/api/operations/${operationId}`).json({
+        success: false,
+        error: { message: "A mint is already in progress for this NFT" },
+        data: {
+          tokenId,
+          operation: transactionManagerService.toOperation(transaction),
+        },
+      });
+    }
 
     // Create audit log
     await createAuditLog(
-      "nft_minted",
+      "nft_mint_requested",
       nft.investorAddress,
       req,
       {
         tokenId,
-        txHash,
+        operationId,
         recipient: nft.recipientAddress,
       },
-      tokenId,
-      txHash
+      tokenId
     );
 
-    res.json({
+    res.status(202).location(`/api/operations/${operationId}`).json({
       success: true,
       data: {
         tokenId,
-        txHash,
-        status: "minted",
-        nft,
+        operation: transactionManagerService.toOperation(transaction),
       },
     });
   } catch (error: any) {
@@ -230,7 +274,11 @@ export const getNFT = async (req: Request, res: Response) => {
       });
     }
 
-
+    // Provenance: every indexed transfer of the token, in chain order
+    const transfers = await TokenTransfer.find({ tokenId }).sort({
+      blockNumber: 1,
+      logIndex: 1,
+    });
 
     // Try to get on-chain owner (if minted)
     let owner = null;
@@ -247,6 +295,13 @@ export const getNFT = async (req: Request, res: Response) => {
       data: {
         nft,
         owner,
+        provenance: transfers.map((transfer) => ({
+          from: transfer.from,
+          to: transfer.to,
+          blockNumber: transfer.blockNumber,
+          txHash: transfer.txHash,
+          timestamp: transfer.timestamp,
+        })),
       },
     });
   } catch (error: any) {
@@ -259,6 +314,266 @@ export const getNFT = async (req: Request, res: Response) => {
     });
   }
 };
+type ViewerRole = "recipient" | "investor" | "owner";
+
+/**
+ * Work out why a wallet may view a document, if at all
+ * @param nft NFT record
+ * @param walletAddress Viewer wallet address
+ * @returns Viewer role, or null if the wallet has no access
+ */
+const resolveViewerRole = async (
+  nft: INFT,
+  walletAddress: string
+): Promise<ViewerRole | null> => {
+  const viewer = walletAddress.toLowerCase();
+
+  if (viewer === nft.recipientAddress) return "recipient";
+  if (viewer === nft.investorAddress) return "investor";
+
+  // The token may have been transferred on-chain since it was issued
+  if (nft.status === "minted" || nft.status === "redeemed") {
+    try {
+      const owner = await blockchainService.getTokenOwner(nft.tokenId);
+      if (owner.toLowerCase() === viewer) return "owner";
+    } catch (error) {
+      console.log("Token not yet on-chain");
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Where and how one version of a document is stored
+ */
+type StoredDocument = Pick<
+  INFT["documentMetadata"],
+  | "originalFilename"
+  | "fileSize"
+  | "encryptionScheme"
+  | "documentData"
+  | "storageKey"
+  | "iv"
+  | "authTag"
+  | "mimeType"
+>;
+
+/**
+ * Open the stored (possibly encrypted) bytes of a document
+ * @param stored Stored document
+ * @param range Optional inclusive byte range
+ * @returns Readable stream of stored bytes
+ */
+const openStoredDocument = async (
+  stored: StoredDocument,
+  range?: ByteRange
+): Promise<Readable> => {
+  if (stored.storageKey) {
+    return documentStorageService.openDocumentStream(stored.storageKey, range);
+  }
+
+  // Legacy record that still embeds the document as base64
+  const embedded = Buffer.from(stored.documentData!, "base64");
+  return Readable.from([
+    range ? embedded.subarray(range.start, range.end + 1) : embedded,
+  ]);
+};
+
+/**
+ * Stream a document's bytes, decrypting and honoring HTTP Range as needed
+ * @param nft NFT record holding the document (with documentData selected)
+ * @param req Express request
+ * @param res Express response
+ * @param options Sending options
+ * @param options.watermark Forensic watermark to stamp into a PDF before sending it
+ * @param options.version Earlier version to send instead of the current one
+ * @param options.allowRanges Whether byte ranges are offered (default true)
+ * @returns Whether the document was sent, rather than an error response
+ */
+const writeDocument = async (
+  nft: INFT,
+  req: Request,
+  res: Response,
+  options: {
+    watermark?: IWatermark;
+    version?: IDocumentVersion;
+    allowRanges?: boolean;
+  } = {}
+): Promise<boolean> => {
+  const { watermark, version } = options;
+  // Each watermarked copy is unique, so it is sent whole and byte ranges are not offered
+  const allowRanges = options.allowRanges !== false && !watermark;
+
+  // The NFT record describes the current version
+  const stored: StoredDocument = version || nft.documentMetadata;
+  const keyVersion = version ? version.version : nft.currentVersion;
+
+  // Check if document data exists
+  if (!stored.storageKey && !stored.documentData) {
+    // Check if this is a mock CID (old NFT without document data)
+    if (nft.encryptedCID?.includes("Mock")) {
+      res.status(404).json({
+        success: false,
+        error: {
+          message:
+            "This document was created with a mock IPFS CID and needs to be re-uploaded to view the PDF.",
+          type: "MOCK_CID",
+        },
+      });
+      return false;
+    }
+
+    res.status(404).json({
+      success: false,
+      error: { message: "Document data not available" },
+    });
+    return false;
+  }
+
+  const isEncrypted = stored.encryptionScheme === "AES-GCM-256";
+  const { iv, authTag } = stored;
+  if (isEncrypted && (!iv || !authTag)) {
+    res.status(500).json({
+      success: false,
+      error: { message: "Document encryption parameters are missing" },
+    });
+    return false;
+  }
+
+  // AES-GCM ciphertext is the same length as the plaintext
+  const size = stored.fileSize;
+
+  let range: ByteRange | undefined;
+  if (req.headers.range && allowRanges) {
+    const ranges = req.range(size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader("Content-Range", `bytes */${size}`);
+      res.status(416).end();
+      return false;
+    }
+    // Malformed or multi-part ranges fall back to the full document
+    if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+
+  // Set appropriate headers
+  res.setHeader(
+    "Content-Type",
+    stored.mimeType || "application/pdf"
+  );
+  res.setHeader(
+    "Content-Disposition",
+    `inline; filename="${stored.originalFilename}"`
+  );
+  res.setHeader("Cache-Control", "private, no-store");
+
+  // Stamping needs the whole PDF, so watermarked copies are decrypted in memory
+  if (watermark) {
+    const storedBytes = await buffer(await openStoredDocument(stored));
+    const plaintext = isEncrypted
+      ? await encryptionService.decryptDocument(
+          storedBytes,
+          await keyManagementService.getDataKey(nft.tokenId, keyVersion),
+          iv!,
+          authTag!
+        )
+      : storedBytes;
+
+    let stamped: Buffer;
+    try {
+      stamped = await watermarkService.stampPdf(plaintext, watermark);
+    } catch (error) {
+      if (!(error instanceof UnstampablePdfError)) {
+        throw error;
+      }
+      // Confidential PDFs are never served without a watermark
+      res.removeHeader("Content-Disposition");
+      res.status(422).json({
+        success: false,
+        error: { message: error.message },
+      });
+      return false;
+    }
+    res.setHeader("Accept-Ranges", "none");
+    res.setHeader("Content-Length", stamped.length.toString());
+    res.end(stamped);
+    return true;
+  }
+
+  const streams: NodeJS.ReadWriteStream[] = [];
+  let source: Readable;
+
+  if (!isEncrypted) {
+    source = await openStoredDocument(stored, range);
+  } else {
+    const dataKey = await keyManagementService.getDataKey(nft.tokenId, keyVersion);
+
+    if (range) {
+      const decrypt = encryptionService.createRangeDecryptStream(
+        dataKey,
+        iv!,
+        range.start
+      );
+      source = await openStoredDocument(stored, {
+        start: decrypt.alignedOffset,
+        end: range.end,
+      });
+      streams.push(decrypt.stream);
+    } else {
+      source = await openStoredDocument(stored);
+      streams.push(encryptionService.createDecryptStream(dataKey, iv!, authTag!));
+    }
+  }
+
+  res.setHeader("Accept-Ranges", allowRanges ? "bytes" : "none");
+
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader("Content-Length", (range.end - range.start + 1).toString());
+  } else {
+    res.setHeader("Content-Length", size.toString());
+  }
+
+  // Stream the document
+  try {
+    await pipeline([source, ...streams, res]);
+  } catch (error) {
+    // Headers are already sent, so the only option left is to abort the response
+    console.error("Error streaming document:", error);
+    res.destroy();
+  }
+  return true;
+};
+
+/**
+ * Send a document; a watermark issued for a copy that ends up not being sent
+ * is discarded, so it never traces to the viewer
+ * @param nft NFT record holding the document (with documentData selected)
+ * @param req Express request
+ * @param res Express response
+ * @param options Sending options, as for writeDocument
+ * @returns Whether the document was sent, rather than an error response
+ */
+const sendDocument = async (
+  nft: INFT,
+  req: Request,
+  res: Response,
+  options: Parameters<typeof writeDocument>[3] = {}
+): Promise<boolean> => {
+  let sent = false;
+  try {
+    sent = await writeDocument(nft, req, res, options);
+    return sent;
+  } finally {
+    if (!sent && options.watermark) {
+      await watermarkService.discardWatermark(options.watermark);
+    }
+  }
+};
+
 /**
  * Get document by token ID for viewing (from MongoDB)
  * GET /api/document/:tokenId
@@ -266,6 +581,7 @@ export const getNFT = async (req: Request, res: Response) => {
 export const getDocument = async (req: Request, res: Response) => {
   try {
     const { tokenId } = req.params;
+    const viewer = req.user!.walletAddress;
     console.log("Document request for tokenId:", tokenId);
 
     if (!tokenId) {
@@ -276,20 +592,10 @@ export const getDocument = async (req: Request, res: Response) => {
       });
     }
 
-    // Find NFT by tokenId
-    const nft = await NFT.findOne({ tokenId });
-    console.log("NFT found:", nft ? "Yes" : "No");
-    if (nft) {
-      console.log(
-        "NFT has documentData:",
-        !!nft.documentMetadata?.documentData
-      );
-      console.log(
-        "DocumentData length:",
-        nft.documentMetadata?.documentData?.length || 0
-      );
-    }
-
+    // Find NFT by tokenId (legacy records may still embed the document)
+    const nft = await NFT.findOne({ tokenId }).select(
+      "+documentMetadata.documentData"
+    );
     if (!nft) {
       console.log("NFT not found for tokenId:", tokenId);
       return res.status(404).json({
@@ -298,48 +604,530 @@ export const getDocument = async (req: Request, res: Response) => {
       });
     }
 
-    // Check if document data exists
-    if (!nft.documentMetadata?.documentData) {
-      // Check if this is a mock CID (old NFT without document data)
-      if (nft.encryptedCID?.includes("Mock")) {
+    // Pulled, revoked or quarantined tokens do not grant access to anyone
+    if (
+      nft.status === "pulled" ||
+      nft.status === "revoked" ||
+      nft.status === "quarantined"
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: { message: `Document access has been ${nft.status}` },
+      });
+    }
+
+    const role = await resolveViewerRole(nft, viewer);
+    if (!role) {
+      return res.status(403).json({
+        success: false,
+        error: { message: "Not authorized to view this document" },
+      });
+    }
+
+    // The current version is served unless an earlier one is requested
+    let version: IDocumentVersion | undefined;
+    if (req.query.version !== undefined) {
+      const requested = Number(req.query.version);
+      const found =
+        Number.isInteger(requested) && requested > 0
+          ? await documentVersionService.getVersion(nft, requested)
+          : null;
+
+      if (!found) {
         return res.status(404).json({
+          success: false,
+          error: { message: "Document version not found" },
+        });
+      }
+      if (found.version !== nft.currentVersion) {
+        version = found;
+      }
+    }
+
+    // Confidential PDFs are stamped so a leaked copy can be traced to its viewer
+    const mimeType = (version || nft.documentMetadata).mimeType || PDF;
+    const watermark =
+      mimeType === PDF && nft.documentMetadata.confidential !== false
+        ? await watermarkService.issueWatermark({
+            tokenId,
+            version: version ? version.version : nft.currentVersion,
+            viewerAddress: viewer,
+            role,
+            ipAddress: req.ip,
+            userAgent: req.get("user-agent"),
+          })
+        : undefined;
+
+    if (!(await sendDocument(nft, req, res, { watermark, version }))) {
+      return;
+    }
+
+    // Only copies that were actually served are audited
+    await createAuditLog(
+      "document_viewed",
+      viewer,
+      req,
+      {
+        tokenId,
+        role,
+        version: version ? version.version : nft.currentVersion,
+        watermarkId: watermark?.watermarkId,
+      },
+      tokenId
+    );
+  } catch (error: any) {
+    console.error("Error getting document:", error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || "Failed to get document" },
+    });
+  }
+};
+
+/**
+ * Describe a document version without its storage and encryption details
+ * @param version Document version
+ * @param currentVersion Version currently served by default
+ */
+const formatVersion = (version: IDocumentVersion, currentVersion: number) => ({
+  version: version.version,
+  current: version.version === currentVersion,
+  originalFilename: version.originalFilename,
+  mimeType: version.mimeType,
+  fileSize: version.fileSize,
+  contentHash: version.contentHash,
+  encryptedCID: version.encryptedCID,
+  uploadedBy: version.uploadedBy,
+  note: version.note,
+  createdAt: version.createdAt,
+});
+
+/**
+ * Attach a new version of the document to an issued token (issuing investor only)
+ * POST /api/document/:tokenId/versions
+ */
+export const addDocumentVersion = async (req: Request, res: Response) => {
+  const file = req.file;
+
+  try {
+    const { tokenId } = req.params;
+    const walletAddress = req.user!.walletAddress;
+
+    if (!file) {
+      return res.status(400).json({
+        success: false,
+        error: { message: "No file uploaded" },
+      });
+    }
+
+    const nft = await NFT.findOne({ tokenId });
+    if (!nft) {
+      return res.status(404).json({
+        success: false,
+        error: { message: "NFT not found" },
+      });
+    }
+
+    if (nft.investorAddress !== walletAddress.toLowerCase()) {
+      return res.status(403).json({
+        success: false,
+        error: { message: "Only the issuing investor can add a document version" },
+      });
+    }
+
+    if (
+      nft.status === "pulled" ||
+      nft.status === "revoked" ||
+      nft.status === "quarantined"
+    ) {
+      return res.status(409).json({
+        success: false,
+        error: { message: `Cannot add a version to a ${nft.status} document` },
+      });
+    }
+
+    // Legacy records embedding the document must be migrated to blob storage first
+    if (!nft.documentMetadata.storageKey) {
+      return res.status(409).json({
+        success: false,
+        error: { message: "Document must be migrated to blob storage before it can be versioned" },
+      });
+    }
+
+    let added;
+    try {
+      added = await documentVersionService.addVersion(nft, {
+        buffer: fs.readFileSync(file.path),
+        originalFilename: file.originalname,
+        declaredMimeType: file.mimetype,
+        uploadedBy: walletAddress,
+        note: req.body.note,
+      });
+    } catch (error) {
+      if (error instanceof FileTypeError) {
+        return res.status(400).json({
           success: false,
           error: {
-            message:
-              "This document was created with a mock IPFS CID and needs to be re-uploaded to view the PDF.",
-            type: "MOCK_CID",
+            message: error.message,
+            details: {
+              declaredType: error.declaredType,
+              detectedType: error.detectedType,
+            },
           },
         });
       }
+      throw error;
+    }
 
-      return res.status(404).json({
+    const { version, scanResult } = added;
+
+    if (!version) {
+      await createAuditLog(
+        "document_version_rejected",
+        walletAddress,
+        req,
+        { tokenId, findings: scanResult.findings },
+        tokenId
+      );
+
+      return res.status(422).json({
         success: false,
-        error: { message: "Document data not available" },
+        error: {
+          message: "Document version failed security scanning and was not added",
+          details: { findings: scanResult.findings },
+        },
       });
     }
 
-    // Convert base64 back to buffer
-    const documentBuffer = Buffer.from(
-      nft.documentMetadata.documentData,
-      "base64"
+    // Create audit log
+    await createAuditLog(
+      "document_version_added",
+      walletAddress,
+      req,
+      { tokenId, version: version.version, contentHash: version.contentHash },
+      tokenId
     );
 
-    // Set appropriate headers
-    res.setHeader(
-      "Content-Type",
-      nft.documentMetadata.mimeType || "application/pdf"
+    res.status(201).json({
+      success: true,
+      data: formatVersion(version, version.version),
+    });
+  } catch (error: any) {
+    console.error("Error adding document version:", error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || "Failed to add document version" },
+    });
+  } finally {
+    if (file && fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
+    }
+  }
+};
+
+/**
+ * List the version history of a document
+ * GET /api/document/:tokenId/versions
+ */
+export const getDocumentVersions = async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+
+    const nft = await NFT.findOne({ tokenId });
+    if (!nft) {
+      return res.status(404).json({
+        success: false,
+        error: { message: "NFT not found" },
+      });
+    }
+
+    const role = await resolveViewerRole(nft, req.user!.walletAddress);
+    if (!role) {
+      return res.status(403).json({
+        success: false,
+        error: { message: "Not authorized to view this document" },
+      });
+    }
+
+    const versions = await documentVersionService.listVersions(nft);
+
+    res.json({
+      success: true,
+      data: {
+        tokenId,
+        currentVersion: nft.currentVersion,
+        versions: versions.map((version) => formatVersion(version, nft.currentVersion)),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error getting document versions:", error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || "Failed to get document versions" },
+    });
+  }
+};
+
+/**
+ * Create a time-limited share link for a document
+ * POST /api/document/:tokenId/share-links
+ */
+export const createShareLink = async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+    const { expiresInHours = 24, singleUse = false } = req.body;
+    const walletAddress = req.user!.walletAddress;
+
+    const nft = await NFT.findOne({ tokenId });
+    if (!nft) {
+      return res.status(404).json({
+        success: false,
+        error: { message: "NFT not found" },
+      });
+    }
+
+    // Only the issuing investor or the recipient may share a document
+    const role = await resolveViewerRole(nft, walletAddress);
+    if (role !== "investor" && role !== "recipient") {
+      return res.status(403).json({
+        success: false,
+        error: { message: "Only the investor or recipient can share this document" },
+      });
+    }
+
+    if (
+      nft.status === "pulled" ||
+      nft.status === "revoked" ||
+      nft.status === "quarantined"
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: { message: `Cannot share a ${nft.status} document` },
+      });
+    }
+
+    let created;
+    try {
+      created = await shareLinkService.createLink(
+        tokenId,
+        walletAddress,
+        Number(expiresInHours),
+        Boolean(singleUse)
+      );
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        error: { message: error.message },
+      });
+    }
+
+    // Create audit log
+    await createAuditLog(
+      "share_link_created",
+      walletAddress,
+      req,
+      {
+        tokenId,
+        linkId: created.link.linkId,
+        expiresAt: created.link.expiresAt,
+        singleUse: created.link.singleUse,
+      },
+      tokenId
     );
-    res.setHeader(
-      "Content-Disposition",
-      `inline; filename="${nft.documentMetadata.originalFilename}"`
+
+    res.status(201).json({
+      success: true,
+      data: {
+        link: created.link,
+        url: created.url,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error creating share link:", error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || "Failed to create share link" },
+    });
+  }
+};
+
+/**
+ * List active share links for a document
+ * GET /api/document/:tokenId/share-links
+ */
+export const getShareLinks = async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+
+    const nft = await NFT.findOne({ tokenId });
+    if (!nft) {
+      return res.status(404).json({
+        success: false,
+        error: { message: "NFT not found" },
+      });
+    }
+
+    const role = await resolveViewerRole(nft, req.user!.walletAddress);
+    if (role !== "investor" && role !== "recipient") {
+      return res.status(403).json({
+        success: false,
+        error: { message: "Not authorized to view share links for this document" },
+      });
+    }
+
+    const links = await shareLinkService.listActiveLinks(tokenId);
+
+    res.json({
+      success: true,
+      data: {
+        links: links.map((link) => ({
+          ...link.toObject(),
+          url: shareLinkService.getUrl(link),
+        })),
+        count: links.length,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error getting share links:", error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || "Failed to get share links" },
+    });
+  }
+};
+
+/**
+ * Revoke a share link
+ * DELETE /api/share-links/:linkId
+ */
+export const revokeShareLink = async (req: Request, res: Response) => {
+  try {
+    const { linkId } = req.params;
+    const walletAddress = req.user!.walletAddress;
+
+    const link = await ShareLink.findOne({ linkId });
+    if (!link) {
+      return res.status(404).json({
+        success: false,
+        error: { message: "Share link not found" },
+      });
+    }
+
+    const nft = await NFT.findOne({ tokenId: link.tokenId });
+    const role = nft ? await resolveViewerRole(nft, walletAddress) : null;
+    if (role !== "investor" && role !== "recipient") {
+      return res.status(403).json({
+        success: false,
+        error: { message: "Not authorized to revoke this share link" },
+      });
+    }
+
+    if (!link.revokedAt) {
+      await shareLinkService.revoke(link, walletAddress);
+
+      // Create audit log
+      await createAuditLog(
+        "share_link_revoked",
+        walletAddress,
+        req,
+        { tokenId: link.tokenId, linkId },
+        link.tokenId
+      );
+    }
+
+    res.json({
+      success: true,
+      data: { link },
+    });
+  } catch (error: any) {
+    console.error("Error revoking share link:", error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || "Failed to revoke share link" },
+    });
+  }
+};
+
+/**
+ * View a document through a share link
+ * GET /api/share/:token
+ */
+export const redeemShareLink = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params;
+
+    const link = await shareLinkService.findUsableLink(token);
+    if (!link) {
+      return res.status(404).json({
+        success: false,
+        error: { message: "Share link is invalid, expired or revoked" },
+      });
+    }
+
+    const nft = await NFT.findOne({ tokenId: link.tokenId }).select(
+      "+documentMetadata.documentData"
     );
-    res.setHeader("Content-Length", documentBuffer.length.toString());
-    res.setHeader("Cache-Control", "public, max-age=3600"); // Cache for 1 hour
+    if (!nft) {
+      return res.status(404).json({
+        success: false,
+        error: { message: "Document not found" },
+      });
+    }
+
+    if (
+      nft.status === "pulled" ||
+      nft.status === "revoked" ||
+      nft.status === "quarantined"
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: { message: `Document access has been ${nft.status}` },
+      });
+    }
+
+    // A use is only counted once the document can actually be delivered
+    if (!(await shareLinkService.redeem(link))) {
+      return res.status(404).json({
+        success: false,
+        error: { message: "Share link is invalid, expired or revoked" },
+      });
+    }
+
+    // A copy leaving through a share link is traced to the link and the wallet that created it
+    const watermark =
+      (nft.documentMetadata.mimeType || PDF) === PDF &&
+      nft.documentMetadata.confidential !== false
+        ? await watermarkService.issueWatermark({
+            tokenId: link.tokenId,
+            version: nft.currentVersion,
+            viewerAddress: link.createdBy,
+            role: "share_link",
+            linkId: link.linkId,
+            ipAddress: req.ip,
+            userAgent: req.get("user-agent"),
+          })
+        : undefined;
+
+    // Every request through a share link counts as a use, so the document is always sent whole
+    if (!(await sendDocument(nft, req, res, { watermark, allowRanges: false }))) {
+      return;
+    }
 
-    // Send the document
-    res.send(documentBuffer);
+    // Create audit log once the copy is served (attributed to the wallet that created the link)
+    await createAuditLog(
+      "document_viewed",
+      link.createdBy,
+      req,
+      {
+        tokenId: link.tokenId,
+        linkId: link.linkId,
+        via: "share_link",
+        watermarkId: watermark?.watermarkId,
+      },
+      link.tokenId
+    );
   } catch (error: any) {
-    console.error("Error getting document:", error);
+    console.error("Error redeeming share link:", error);
     res.status(500).json({
       success: false,
       error: { message: error.message || "Failed to get document" },
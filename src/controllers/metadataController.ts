@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import metadataService from '../services/metadataService';
+import thumbnailService from '../services/thumbnailService';
+import NFT from '../models/NFT';
+
+/**
+ * Serve a token's ERC-721 metadata JSON, so it resolves even before it is pinned to IPFS
+ * GET /api/metadata/:tokenId
+ */
+export const getTokenMetadata = async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+
+    const nft = await NFT.findOne({ tokenId });
+    if (!nft || !nft.metadataCID || nft.status === 'quarantined') {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Metadata not found' },
+      });
+    }
+
+    const metadata = await metadataService.getMetadata(tokenId);
+
+    // Served as the raw JSON document wallets and marketplaces expect
+    res.setHeader('ETag', `"${nft.metadataCID}"`);
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.type('application/json').send(metadata);
+  } catch (error: any) {
+    console.error('Error getting token metadata:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to get token metadata' },
+    });
+  }
+};
+
+/**
+ * Serve a token's thumbnail PNG, so the metadata image resolves even before it is pinned to IPFS
+ * GET /api/metadata/:tokenId/thumbnail
+ */
+export const getTokenThumbnail = async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+
+    const nft = await NFT.findOne({ tokenId });
+    if (!nft || !nft.thumbnailCID || nft.status === 'quarantined') {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Thumbnail not found' },
+      });
+    }
+
+    const thumbnail = await thumbnailService.getThumbnail(tokenId);
+
+    res.setHeader('ETag', `"${nft.thumbnailCID}"`);
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.type('image/png').send(thumbnail);
+  } catch (error: any) {
+    console.error('Error getting token thumbnail:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to get token thumbnail' },
+    });
+  }
+};
@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import notificationService from '../services/notificationService';
+
+/**
+ * List the signed-in wallet's notifications, newest first
+ * GET /api/notifications?unread=true&limit=50
+ */
+export const getNotifications = async (req: Request, res: Response) => {
+  try {
+    const { unread, limit } = req.query;
+
+    const notifications = await notificationService.listNotifications(
+      req.user!.walletAddress,
+      unread === 'true',
+      Math.min(parseInt((limit as string) || '50') || 50, 200)
+    );
+
+    res.json({
+      success: true,
+      data: notifications,
+    });
+  } catch (error: any) {
+    console.error('Error getting notifications:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to get notifications' },
+    });
+  }
+};
+
+/**
+ * Mark one of the signed-in wallet's notifications as read
+ * POST /api/notifications/:id/read
+ */
+export const markNotificationRead = async (req: Request, res: Response) => {
+  try {
+    const notification = await notificationService.markRead(req.params.id, req.user!.walletAddress);
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Notification not found' },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: notification,
+    });
+  } catch (error: any) {
+    console.error('Error marking notification read:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to mark notification read' },
+    });
+  }
+};
@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import transactionManagerService, { SETTLED_STATUSES } from '../services/transactionManagerService';
+import { IChainTransaction } from '../models/ChainTransaction';
+import { isOperator } from '../middleware/auth';
+
+// How often an event stream checks for changes, and sends a keep-alive comment
+const STREAM_POLL_MS = 1000;
+const STREAM_KEEPALIVE_MS = 15000;
+
+/**
+ * Load the operation a request refers to, if the authenticated wallet may see it:
+ * the wallet that requested it, or the operator. Others get a 404 rather than a 403,
+ * so operation IDs cannot be probed.
+ * @param req Express request
+ * @returns Transaction, or null if not found or not visible to the wallet
+ */
+const findVisibleOperation = async (req: Request): Promise<IChainTransaction | null> => {
+  const transaction = await transactionManagerService.getOperation(req.params.id);
+  const wallet = req.user!.walletAddress;
+
+  if (
+    !transaction ||
+    (transaction.context?.requestedBy?.toLowerCase() !== wallet.toLowerCase() && !isOperator(wallet))
+  ) {
+    return null;
+  }
+  return transaction;
+};
+
+/**
+ * Get the state of an asynchronous on-chain operation
+ * GET /api/operations/:id
+ */
+export const getOperation = async (req: Request, res: Response) => {
+  try {
+    const transaction = await findVisibleOperation(req);
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Operation not found' },
+      });
+    }
+
+    res.json({
+      success: true,
+      data: transactionManagerService.toOperation(transaction),
+    });
+  } catch (error: any) {
+    console.error('Error getting operation:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to get operation' },
+    });
+  }
+};
+
+/**
+ * Stream an operation's state changes as server-sent "operation" events; the
+ * stream ends once the operation is confirmed or failed
+ * GET /api/operations/:id/events
+ */
+export const streamOperation = async (req: Request, res: Response) => {
+  try {
+    const operationId = req.params.id;
+    const transaction = await findVisibleOperation(req);
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Operation not found' },
+      });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let lastState = '';
+    let lastWriteAt = Date.now();
+
+    // Send the operation if it changed; returns true once it is settled
+    const send = (current: NonNullable<typeof transaction>): boolean => {
+      const operation = transactionManagerService.toOperation(current);
+      const state = `${operation.status}:${operation.txHash}:${operation.attempts}`;
+
+      if (state !== lastState) {
+        res.write(`event: operation\ndata: ${JSON.stringify(operation)}\n\n`);
+        lastState = state;
+        lastWriteAt = Date.now();
+      }
+      return SETTLED_STATUSES.includes(current.status);
+    };
+
+    if (send(transaction)) {
+      return res.end();
+    }
+
+    let checking = false;
+    const timer = setInterval(async () => {
+      if (checking) {
+        return;
+      }
+      checking = true;
+
+      try {
+        const current = await transactionManagerService.getOperation(operationId);
+        if (current && send(current)) {
+          clearInterval(timer);
+          res.end();
+        } else if (Date.now() - lastWriteAt >= STREAM_KEEPALIVE_MS) {
+          res.write(': keep-alive\n\n');
+          lastWriteAt = Date.now();
+        }
+      } catch (error) {
+        console.error('Error streaming operation:', error);
+      } finally {
+        checking = false;
+      }
+    }, STREAM_POLL_MS);
+
+    req.on('close', () => clearInterval(timer));
+  } catch (error: any) {
+    console.error('Error streaming operation:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to stream operation' },
+    });
+  }
+};
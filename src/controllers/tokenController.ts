@@ -2,21 +2,24 @@ import { Request, Response } from 'express';
 import NFT from '../models/NFT';
 import ERC20Pullback from '../models/ERC20Pullback';
 import blockchainService from '../services/blockchainService';
+import transactionManagerService from '../services/transactionManagerService';
 import { createAuditLog } from '../middleware/auditLog';
 
 /**
- * Pull back a token
+ * Queue a pullback of a token to the authenticated operator; follow it at /api/operations/:id
  * POST /api/pull/:tokenId
+ * Headers: Idempotency-Key (optional)
  */
 export const pullToken = async (req: Request, res: Response) => {
   try {
     const { tokenId } = req.params;
-    const { operatorAddress } = req.body;
+    const operatorAddress = req.user!.walletAddress.toLowerCase();
 
-    if (!operatorAddress) {
-      return res.status(400).json({
+    // Older clients still send the operator; it must be the authenticated one
+    if (req.body?.operatorAddress && req.body.operatorAddress.toLowerCase() !== operatorAddress) {
+      return res.status(403).json({
         success: false,
-        error: { message: 'Missing operatorAddress' },
+        error: { message: 'operatorAddress does not match the authenticated operator' },
       });
     }
 
@@ -36,10 +39,25 @@ export const pullToken = async (req: Request, res: Response) => {
       });
     }
 
+    // The NFT stays as it is until its pull settles, so an in-flight pull is checked separately
+    const pending = await transactionManagerService.findLatestForToken('pull_token', tokenId);
+    if (pending && (pending.status === 'queued' || pending.status === 'submitted')) {
+      return res.status(409).location(`/api/operations/${pending.operationId}`).json({
+        success: false,
+        error: { message: 'A pull is already in progress for this NFT' },
+        data: {
+          tokenId,
+          operation: transactionManagerService.toOperation(pending),
+        },
+      });
+    }
+
     // Get current owner from blockchain
     const currentOwner = await blockchainService.getTokenOwner(tokenId);
 
-    // Check if operator is approved
+    // The holder must have approved the operator the pull is made for. The contract
+    // call itself is sent by the server wallet; a pull the contract would refuse it
+    // reverts during gas estimation and the operation fails without being sent.
     const isApproved = await blockchainService.checkApproval(
       currentOwner,
       operatorAddress
@@ -58,30 +76,35 @@ export const pullToken = async (req: Request, res: Response) => {
       });
     }
 
-    // Pull token back
-    console.log(`Pulling back token ${tokenId} from ${currentOwner}...`);
-    const txHash = await blockchainService.pullToken(currentOwner, tokenId);
-
-    // Update NFT status
-    nft.status = 'pulled';
-    nft.pullTxHash = txHash;
-    await nft.save();
+    // Queue the pullback for the operator; the NFT is marked pulled once the transaction confirms
+    console.log(`Queuing pullback of token ${tokenId} from ${currentOwner} for ${operatorAddress}...`);
+    const operationId = await blockchainService.pullToken(currentOwner, operatorAddress, tokenId, {
+      tokenId,
+      fromAddress: currentOwner,
+      requestedBy: operatorAddress,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+    const transaction = await transactionManagerService.getOperation(operationId);
+    const expectedToAddress = transaction!.context.expectedToAddress;
 
     // Create audit log
-    await createAuditLog('token_pulled', operatorAddress, req, {
+    await createAuditLog('token_pull_requested', operatorAddress, req, {
       tokenId,
       fromAddress: currentOwner,
-      txHash,
-    }, tokenId, txHash);
+      expectedToAddress,
+      operatorAddress,
+      operationId,
+    }, tokenId);
 
-    res.json({
+    res.status(202).location(`/api/operations/${operationId}`).json({
       success: true,
       data: {
         tokenId,
-        txHash,
         fromAddress: currentOwner,
-        toAddress: operatorAddress,
-        nft,
+        expectedToAddress,
+        operatorAddress,
+        operation: transactionManagerService.toOperation(transaction!),
       },
     });
   } catch (error: any) {
@@ -194,6 +217,7 @@ export const getDashboardStats = async (req: Request, res: Response) => {
     // Get counts by status
     const totalDocuments = await NFT.countDocuments({ investorAddress: address });
     const uploaded = await NFT.countDocuments({ investorAddress: address, status: 'uploaded' });
+    const quarantined = await NFT.countDocuments({ investorAddress: address, status: 'quarantined' });
     const minted = await NFT.countDocuments({ investorAddress: address, status: 'minted' });
     const redeemed = await NFT.countDocuments({ investorAddress: address, status: 'redeemed' });
     const pulled = await NFT.countDocuments({ investorAddress: address, status: 'pulled' });
@@ -209,6 +233,7 @@ export const getDashboardStats = async (req: Request, res: Response) => {
         stats: {
           totalDocuments,
           uploaded,
+          quarantined,
           minted,
           redeemed,
           pulled,
@@ -321,8 +346,9 @@ export const checkERC20Status = async (req: Request, res: Response) => {
 };
 
 /**
- * Pull back ERC-20 tokens from a holder
+ * Queue an ERC-20 pullback from a holder; follow it at /api/operations/:id
  * POST /api/erc20/pull
+ * Headers: Idempotency-Key (optional)
  */
 export const pullBackERC20 = async (req: Request, res: Response) => {
   try {
@@ -369,46 +395,35 @@ export const pullBackERC20 = async (req: Request, res: Response) => {
 
     console.log(`Pulling back ${amount} ${tokenInfo.symbol} from ${fromAddress}...`);
 
-    // Execute pullback
-    const txHash = await blockchainService.pullBackERC20(tokenContract, fromAddress, amount);
-
-    // Wait for transaction confirmation
-    const receipt = await blockchainService.waitForTransaction(txHash);
-
-    // Create database record
-    const pullbackRecord = await ERC20Pullback.create({
-      tokenContract: tokenContract.toLowerCase(),
-      tokenSymbol: tokenInfo.symbol,
-      tokenName: tokenInfo.name,
-      tokenDecimals: tokenInfo.decimals,
-      fromAddress: fromAddress.toLowerCase(),
-      operatorAddress: operatorAddress.toLowerCase(),
+    // Queue the pullback; it is added to the pullback history once the transaction is mined
+    const operationId = await blockchainService.pullBackERC20(tokenContract, fromAddress, amount, {
+      tokenContract,
+      tokenInfo,
+      fromAddress,
       amount,
-      txHash,
-      blockNumber: receipt.blockNumber,
-      timestamp: new Date(),
-      status: 'completed',
+      requestedBy: operatorAddress,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
     });
+    const transaction = await transactionManagerService.getOperation(operationId);
 
     // Create audit log
-    await createAuditLog('erc20_pulled', operatorAddress, req, {
+    await createAuditLog('erc20_pull_requested', operatorAddress, req, {
       tokenContract,
       tokenSymbol: tokenInfo.symbol,
       fromAddress,
       amount,
-      txHash,
-    }, fromAddress, txHash);
+      operationId,
+    }, fromAddress);
 
-    res.json({
+    res.status(202).location(`/api/operations/${operationId}`).json({
       success: true,
       data: {
-        txHash,
         tokenInfo,
         fromAddress,
         operatorAddress,
         amount,
-        blockNumber: receipt.blockNumber,
-        record: pullbackRecord,
+        operation: transactionManagerService.toOperation(transaction!),
       },
     });
   } catch (error: any) {
@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import verificationService, {
+  computeContentHash,
+  isValidContentHash,
+} from '../services/verificationService';
+
+/**
+ * Check whether a document (uploaded as "document") or its SHA-256 hash (as "hash")
+ * matches a document issued as an NFT
+ * POST /api/verify
+ */
+export const verifyDocument = async (req: Request, res: Response) => {
+  const file = req.file;
+
+  try {
+    let contentHash: string;
+
+    if (file) {
+      contentHash = computeContentHash(fs.readFileSync(file.path));
+    } else if (typeof req.body.hash === 'string' && isValidContentHash(req.body.hash.trim())) {
+      contentHash = req.body.hash.trim().toLowerCase().replace(/^0x/, '');
+    } else {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'Provide a document file or a hex-encoded SHA-256 hash' },
+      });
+    }
+
+    const matches = await verificationService.findMatches(contentHash);
+
+    res.json({
+      success: true,
+      data: {
+        contentHash,
+        verified: matches.length > 0,
+        matches,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error verifying document:', error);
+    res.status(500).json({
+      success: false,
+      error: { message: error.message || 'Failed to verify document' },
+    });
+  } finally {
+    if (file && fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
+    }
+  }
+};
@@ -6,6 +6,13 @@ import { connectDatabase } from './config/database';
 import routes from './routes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import eventMonitorService from './services/eventMonitorService';
+import reconciliationService from './services/reconciliationService';
+import jobQueueService from './services/jobQueueService';
+import transactionManagerService from './services/transactionManagerService';
+import litProtocolService from './services/litProtocolService';
+import { registerPinningJobs } from './services/pinningJobs';
+import { registerOperationJobs } from './services/operationJobs';
+import { registerBatchJobs } from './services/batchJobs';
 
 // Load environment variables
 dotenv.config();
@@ -70,6 +77,26 @@ const startServer = async () => {
     // Connect to database
     await connectDatabase();
 
+    // Uploads wrap their data keys through Lit, so report an unreachable network at startup
+    try {
+      await litProtocolService.initialize();
+    } catch (error) {
+      console.warn('⚠️  Lit Protocol not available, uploads will fail until it is:', error);
+    }
+
+    // Start the background job worker (can be disabled on API-only instances)
+    if (process.env.ENABLE_JOB_WORKER !== 'false') {
+      registerPinningJobs();
+      registerOperationJobs();
+      registerBatchJobs();
+      jobQueueService.start();
+    }
+
+    // Start the transaction manager; opt-in, as exactly one instance per wallet may run it
+    if (process.env.ENABLE_TX_MANAGER === 'true') {
+      transactionManagerService.start();
+    }
+
     // Start event monitoring (optional - enable in production)
     if (process.env.ENABLE_EVENT_MONITORING === 'true') {
       try {
@@ -77,7 +104,11 @@ const startServer = async () => {
 
         // Run reconciliation every hour
         setInterval(async () => {
-          await eventMonitorService.reconcileData();
+          try {
+            await reconciliationService.runReconciliation('scheduled');
+          } catch (error) {
+            console.error('Error during scheduled reconciliation:', error);
+          }
         }, 60 * 60 * 1000);
       } catch (error) {
         console.warn('⚠️  Event monitoring not started:', error);
@@ -91,6 +122,8 @@ const startServer = async () => {
 📝 Environment: ${process.env.NODE_ENV || 'development'}
 🔗 API URL: http://localhost:${PORT}/api
 ${process.env.ENABLE_EVENT_MONITORING === 'true' ? '🔍 Event monitoring: ENABLED' : ''}
+${process.env.ENABLE_JOB_WORKER !== 'false' ? '⚙️  Job worker: ENABLED' : ''}
+${process.env.ENABLE_TX_MANAGER === 'true' ? '⛓️  Transaction manager: ENABLED' : ''}
       `);
     });
   } catch (error) {
@@ -105,12 +138,16 @@ startServer();
 process.on('SIGINT', async () => {
   console.log('\n🛑 Shutting down gracefully...');
   await eventMonitorService.stopMonitoring();
+  await jobQueueService.stop();
+  await transactionManagerService.stop();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Shutting down gracefully...');
   await eventMonitorService.stopMonitoring();
+  await jobQueueService.stop();
+  await transactionManagerService.stop();
   process.exit(0);
 });
 
@@ -80,3 +80,34 @@ export const optionalAuth = async (
     next();
   }
 };
+
+/**
+ * Whether a wallet is the operator
+ * @param walletAddress Wallet address
+ * @returns true if it is the operator address
+ */
+export const isOperator = (walletAddress: string): boolean => {
+  const operatorAddress =
+    process.env.OPERATOR_ADDRESS || "0x04d81EF7DBcf0d094659F370D5edC91EA1C9075B";
+
+  return walletAddress.toLowerCase() === operatorAddress.toLowerCase();
+};
+
+/**
+ * Operator-only guard - must run after authenticate
+ */
+export const requireOperator = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user || !isOperator(req.user.walletAddress)) {
+    res.status(403).json({
+      success: false,
+      error: { message: "Unauthorized: Only the operator can perform this action" },
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import IdempotencyKey from '../models/IdempotencyKey';
+
+/**
+ * Make a POST endpoint safe to retry. A request carrying an Idempotency-Key
+ * header runs once; repeating it with the same key and body replays the stored
+ * response instead of running again. Server errors are not stored, so the
+ * request can be retried with the same key.
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get('Idempotency-Key');
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > 255) {
+    return res.status(400).json({
+      success: false,
+      error: { message: 'Idempotency-Key must be at most 255 characters' },
+    });
+  }
+
+  const ttlMs = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24') * 60 * 60 * 1000;
+  const scope = `${req.method} ${req.baseUrl}${req.path}`;
+  const requestHash = crypto.createHash('sha256').update(JSON.stringify(req.body || {})).digest('hex');
+
+  try {
+    await IdempotencyKey.create({
+      key,
+      scope,
+      requestHash,
+      status: 'in_progress',
+      expiresAt: new Date(Date.now() + ttlMs),
+    });
+  } catch (error: any) {
+    if (error?.code !== 11000) {
+      console.error('Error recording idempotency key:', error);
+      return res.status(500).json({
+        success: false,
+        error: { message: 'Failed to process Idempotency-Key' },
+      });
+    }
+
+    const existing = await IdempotencyKey.findOne({ key, scope });
+
+    if (existing && existing.requestHash !== requestHash) {
+      return res.status(422).json({
+        success: false,
+        error: { message: 'Idempotency-Key was already used with a different request' },
+      });
+    }
+
+    if (!existing || existing.status !== 'completed') {
+      return res.status(409).json({
+        success: false,
+        error: { message: 'A request with this Idempotency-Key is still in progress' },
+      });
+    }
+
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(existing.statusCode!).json(existing.responseBody);
+  }
+
+  // Store the response once the handler sends it
+  const originalJson = res.json.bind(res);
+  res.json = function (body: any) {
+    const stored =
+      res.statusCode < 500
+        ? IdempotencyKey.updateOne(
+            { key, scope },
+            { $set: { status: 'completed', statusCode: res.statusCode, responseBody: body } }
+          )
+        : IdempotencyKey.deleteOne({ key, scope });
+    stored.catch((error: any) => console.error('Error storing idempotent response:', error));
+
+    return originalJson(body);
+  };
+
+  next();
+};
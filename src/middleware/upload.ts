@@ -1,6 +1,7 @@
 import multer from 'multer';
 import path from 'path';
 import { Request } from 'express';
+import fileTypeService from '../services/fileTypeService';
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -13,12 +14,21 @@ const storage = multer.diskStorage({
   },
 });
 
-// File filter to only allow PDFs
+// MIME types browsers and tools report for CSV files
+const CSV_TYPES = ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'];
+
+// File filter to only allow configured document types (content is checked after upload)
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  if (file.mimetype === 'application/pdf') {
+  if (file.fieldname === 'recipientsCsv') {
+    if (CSV_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Recipients file must be a CSV'));
+    }
+  } else if (fileTypeService.isAllowed(file.mimetype)) {
     cb(null, true);
   } else {
-    cb(new Error('Only PDF files are allowed'));
+    cb(new Error(`Only these file types are allowed: ${fileTypeService.getAllowedTypes().join(', ')}`));
   }
 };
 
@@ -30,3 +40,9 @@ export const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
 });
+
+// Batch uploads: several documents, or one document plus a CSV of recipients
+export const batchUpload = upload.fields([
+  { name: 'documents', maxCount: parseInt(process.env.BATCH_UPLOAD_MAX_ITEMS || '100') },
+  { name: 'recipientsCsv', maxCount: 1 },
+]);
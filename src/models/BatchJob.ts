@@ -0,0 +1,132 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type BatchItemStatus =
+  | "pending"
+  | "uploaded"
+  | "quarantined"
+  | "minting"
+  | "minted"
+  | "failed";
+
+export interface IBatchItem {
+  index: number;
+  recipientAddress: string;
+  originalFilename: string;
+  declaredMimeType: string;
+  confidential: boolean;
+  uploadKey: string; // Blob holding the uploaded file until the batch completes
+  status: BatchItemStatus;
+  tokenId?: string;
+  operationId?: string;
+  txHash?: string;
+  error?: string;
+}
+
+export interface IBatchJob extends Document {
+  batchId: string;
+  investorAddress: string;
+  mint: boolean;
+  status: "processing" | "completed" | "completed_with_errors" | "failed";
+  items: IBatchItem[];
+  ipAddress?: string;
+  userAgent?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BatchItemSchema: Schema = new Schema(
+  {
+    index: {
+      type: Number,
+      required: true,
+    },
+    recipientAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    originalFilename: {
+      type: String,
+      required: true,
+    },
+    declaredMimeType: {
+      type: String,
+      required: true,
+    },
+    confidential: {
+      type: Boolean,
+      required: true,
+      default: true,
+    },
+    uploadKey: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ["pending", "uploaded", "quarantined", "minting", "minted", "failed"],
+      default: "pending",
+    },
+    tokenId: {
+      type: String,
+    },
+    operationId: {
+      type: String,
+    },
+    txHash: {
+      type: String,
+    },
+    error: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
+
+const BatchJobSchema: Schema = new Schema(
+  {
+    batchId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    investorAddress: {
+      type: String,
+      required: true,
+      index: true,
+      lowercase: true,
+    },
+    mint: {
+      type: Boolean,
+      required: true,
+      default: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ["processing", "completed", "completed_with_errors", "failed"],
+      default: "processing",
+    },
+    items: {
+      type: [BatchItemSchema],
+      default: [],
+    },
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IBatchJob>("BatchJob", BatchJobSchema);
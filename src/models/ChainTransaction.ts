@@ -0,0 +1,149 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ChainTransactionStatus = 'queued' | 'submitted' | 'confirmed' | 'failed';
+
+export interface IChainTransactionAttempt {
+  txHash: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  submittedAt: Date;
+}
+
+export interface IChainTransaction extends Document {
+  operationId: string;
+  kind: string; // e.g. mint, pull_token, pull_erc20
+  from: string;
+  to: string;
+  method: string;
+  args: any[];
+  data: string;
+  context?: any; // Caller data describing what the transaction is for
+  status: ChainTransactionStatus;
+  nonce?: number;
+  gasLimit?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  txHash?: string; // Latest attempt until mined, then the mined one
+  rawTransaction?: string; // Latest signed attempt, for rebroadcasting
+  attempts: IChainTransactionAttempt[]; // Every signed attempt; later ones replace earlier ones at higher fees
+  submittedAt?: Date;
+  lastSubmittedAt?: Date;
+  confirmedAt?: Date;
+  blockNumber?: number;
+  blockHash?: string;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChainTransactionSchema: Schema = new Schema(
+  {
+    operationId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    kind: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    from: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    to: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    args: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+    data: {
+      type: String,
+      required: true,
+    },
+    context: {
+      type: Schema.Types.Mixed,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ['queued', 'submitted', 'confirmed', 'failed'],
+      default: 'queued',
+    },
+    nonce: {
+      type: Number,
+    },
+    gasLimit: {
+      type: String,
+    },
+    maxFeePerGas: {
+      type: String,
+    },
+    maxPriorityFeePerGas: {
+      type: String,
+    },
+    txHash: {
+      type: String,
+      lowercase: true,
+      index: true,
+    },
+    rawTransaction: {
+      type: String,
+    },
+    attempts: [
+      {
+        _id: false,
+        txHash: { type: String, required: true, lowercase: true },
+        maxFeePerGas: { type: String, required: true },
+        maxPriorityFeePerGas: { type: String, required: true },
+        submittedAt: { type: Date, required: true },
+      },
+    ],
+    submittedAt: {
+      type: Date,
+    },
+    lastSubmittedAt: {
+      type: Date,
+    },
+    confirmedAt: {
+      type: Date,
+    },
+    blockNumber: {
+      type: Number,
+    },
+    blockHash: {
+      type: String,
+    },
+    gasUsed: {
+      type: String,
+    },
+    effectiveGasPrice: {
+      type: String,
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The manager sends queued transactions in order and tracks in-flight ones by nonce
+ChainTransactionSchema.index({ from: 1, status: 1, nonce: 1 });
+ChainTransactionSchema.index({ status: 1, createdAt: 1 });
+ChainTransactionSchema.index({ kind: 1, 'context.tokenId': 1 });
+
+export default mongoose.model<IChainTransaction>('ChainTransaction', ChainTransactionSchema);
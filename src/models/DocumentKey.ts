@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IDocumentKey extends Document {
+  tokenId: string;
+  version: number; // Document version the key encrypts
+  wrappedKey: string; // Data key wrapped with the master key
+  masterKeyId: string; // Master key version used to wrap the data key
+  kmsProvider: string;
+  algorithm: string;
+  litCiphertext?: string; // Data key encrypted under the Lit access conditions
+  litDataToEncryptHash?: string;
+  rotatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DocumentKeySchema: Schema = new Schema(
+  {
+    tokenId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+      default: 1,
+    },
+    wrappedKey: {
+      type: String,
+      required: true,
+    },
+    masterKeyId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    kmsProvider: {
+      type: String,
+      required: true,
+    },
+    algorithm: {
+      type: String,
+      required: true,
+      default: 'AES-GCM-256',
+    },
+    litCiphertext: {
+      type: String,
+    },
+    litDataToEncryptHash: {
+      type: String,
+    },
+    rotatedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Every version of a document has its own data key
+DocumentKeySchema.index({ tokenId: 1, version: 1 }, { unique: true });
+
+export default mongoose.model<IDocumentKey>('DocumentKey', DocumentKeySchema);
@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IDocumentVersion extends Document {
+  tokenId: string;
+  version: number;
+  originalFilename: string;
+  mimeType?: string;
+  fileSize: number;
+  contentHash?: string; // SHA-256 of the plaintext (hex); unknown for versions recorded after the fact
+  encryptedCID: string;
+  encryptionScheme: string;
+  storageKey?: string;
+  iv?: string;
+  authTag?: string;
+  uploadedBy: string;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DocumentVersionSchema: Schema = new Schema(
+  {
+    tokenId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+    },
+    originalFilename: {
+      type: String,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+    },
+    fileSize: {
+      type: Number,
+      required: true,
+    },
+    contentHash: {
+      type: String,
+      index: true,
+    },
+    encryptedCID: {
+      type: String,
+      required: true,
+    },
+    encryptionScheme: {
+      type: String,
+      required: true,
+    },
+    storageKey: {
+      type: String,
+    },
+    iv: {
+      type: String,
+    },
+    authTag: {
+      type: String,
+    },
+    uploadedBy: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    note: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Version numbers are allocated by inserting, so two uploads can never claim the same one
+DocumentVersionSchema.index({ tokenId: 1, version: 1 }, { unique: true });
+
+export default mongoose.model<IDocumentVersion>('DocumentVersion', DocumentVersionSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IIdempotencyKey extends Document {
+  key: string;
+  scope: string; // Method and path the key was used on
+  requestHash: string;
+  status: 'in_progress' | 'completed';
+  statusCode?: number;
+  responseBody?: any;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema: Schema = new Schema(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    scope: {
+      type: String,
+      required: true,
+    },
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ['in_progress', 'completed'],
+      default: 'in_progress',
+    },
+    statusCode: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A key can be used once per endpoint
+IdempotencyKeySchema.index({ key: 1, scope: 1 }, { unique: true });
+
+// Expired keys are removed by MongoDB
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IIndexerCheckpoint extends Document {
+  name: string;
+  lastProcessedBlock: number;
+  lastProcessedBlockHash?: string;
+  recentBlocks: { number: number; hash: string }[]; // Processed blocks kept for finding a reorg's common ancestor
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IndexerCheckpointSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    lastProcessedBlock: {
+      type: Number,
+      required: true,
+    },
+    lastProcessedBlockHash: {
+      type: String,
+    },
+    recentBlocks: [
+      {
+        _id: false,
+        number: { type: Number, required: true },
+        hash: { type: String, required: true },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IIndexerCheckpoint>('IndexerCheckpoint', IndexerCheckpointSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface IJob extends Document {
+  type: string;
+  payload: any;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt?: Date;
+  lockedBy?: string;
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobSchema: Schema = new Schema(
+  {
+    type: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ['pending', 'running', 'completed', 'dead'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      required: true,
+      default: 5,
+    },
+    runAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    lockedBy: {
+      type: String,
+    },
+    lastError: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Workers claim the oldest due job of a status
+JobSchema.index({ status: 1, runAt: 1 });
+
+export default mongoose.model<IJob>('Job', JobSchema);
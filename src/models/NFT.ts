@@ -6,18 +6,37 @@ export interface INFT extends Document {
   investorAddress: string;
   tokenURI: string;
   encryptedCID: string;
-  metadataCID: string;
-  status: "uploaded" | "minted" | "redeemed" | "pulled" | "revoked";
+  contentHash?: string; // SHA-256 of the current version's plaintext (hex)
+  metadataCID?: string;
+  metadataPinnedAt?: Date;
+  thumbnailCID?: string;
+  thumbnailPinnedAt?: Date;
+  currentVersion: number; // Document version that documentMetadata and encryptedCID describe
+  status: "uploaded" | "quarantined" | "minted" | "redeemed" | "pulled" | "revoked";
   mintTxHash?: string;
+  mintOperationId?: string; // Mint claimed for the token; cleared if it fails
+  mintClaimedAt?: Date;
   pullTxHash?: string;
+  pullToAddress?: string; // Where the pull moved the token, from its Transfer log
+  currentOwner?: string; // On-chain owner as of the last indexed Transfer
   documentMetadata: {
     originalFilename: string;
     fileSize: number;
     encryptionScheme: string;
     accessConditions: any;
-    documentData?: string; // Base64 encoded document for fast access
+    documentData?: string; // Legacy base64 embedded document (moved to blob storage)
+    storageKey?: string; // Key of the (encrypted) document in blob storage
+    storageBackend?: string; // Blob store holding the document ("gridfs" or "filesystem")
+    iv?: string; // AES-GCM initialization vector (hex)
+    authTag?: string; // AES-GCM authentication tag (hex)
     mimeType?: string; // MIME type of the document
-    ipfsCID?: string; // Real IPFS CID (updated asynchronously)
+    confidential?: boolean; // Whether public previews are blurred and watermarked
+    ipfsCID?: string; // CID confirmed pinned to IPFS (set by the pinning job)
+  };
+  scanResult?: {
+    scannedAt: Date;
+    scanners: string[];
+    findings: { scanner: string; type: string; description: string }[];
   };
   createdAt: Date;
   updatedAt: Date;
@@ -51,14 +70,36 @@ const NFTSchema: Schema = new Schema(
       type: String,
       required: true,
     },
+    contentHash: {
+      type: String,
+      required: false,
+      index: true,
+    },
     metadataCID: {
       type: String,
+      required: false,
+    },
+    metadataPinnedAt: {
+      type: Date,
+      required: false,
+    },
+    thumbnailCID: {
+      type: String,
+      required: false,
+    },
+    thumbnailPinnedAt: {
+      type: Date,
+      required: false,
+    },
+    currentVersion: {
+      type: Number,
       required: true,
+      default: 1,
     },
     status: {
       type: String,
       required: true,
-      enum: ["uploaded", "minted", "redeemed", "pulled", "revoked"],
+      enum: ["uploaded", "quarantined", "minted", "redeemed", "pulled", "revoked"],
       default: "uploaded",
       index: true,
     },
@@ -66,10 +107,29 @@ const NFTSchema: Schema = new Schema(
       type: String,
       sparse: true,
     },
+    mintOperationId: {
+      type: String,
+      required: false,
+    },
+    mintClaimedAt: {
+      type: Date,
+      required: false,
+    },
     pullTxHash: {
       type: String,
       sparse: true,
     },
+    pullToAddress: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    currentOwner: {
+      type: String,
+      required: false,
+      lowercase: true,
+      index: true,
+    },
     documentMetadata: {
       originalFilename: {
         type: String,
@@ -92,16 +152,58 @@ const NFTSchema: Schema = new Schema(
       documentData: {
         type: String,
         required: false,
+        select: false,
+      },
+      storageKey: {
+        type: String,
+        required: false,
+      },
+      storageBackend: {
+        type: String,
+        required: false,
+      },
+      iv: {
+        type: String,
+        required: false,
+      },
+      authTag: {
+        type: String,
+        required: false,
       },
       mimeType: {
         type: String,
         required: false,
       },
+      confidential: {
+        type: Boolean,
+        required: false,
+        default: true,
+      },
       ipfsCID: {
         type: String,
         required: false,
       },
     },
+    scanResult: {
+      scannedAt: {
+        type: Date,
+      },
+      scanners: {
+        type: [String],
+        default: undefined,
+      },
+      findings: {
+        type: [
+          {
+            _id: false,
+            scanner: { type: String, required: true },
+            type: { type: String, required: true },
+            description: { type: String, required: true },
+          },
+        ],
+        default: undefined,
+      },
+    },
   },
   {
     timestamps: true,
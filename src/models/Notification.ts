@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface INotification extends Document {
+  walletAddress: string;
+  type: string;
+  message: string;
+  tokenId?: string;
+  data?: any;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationSchema: Schema = new Schema(
+  {
+    walletAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    tokenId: {
+      type: String,
+      index: true,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+    },
+    readAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Wallets list their newest notifications first
+NotificationSchema.index({ walletAddress: 1, createdAt: -1 });
+
+export default mongoose.model<INotification>('Notification', NotificationSchema);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IProcessedEvent extends Document {
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  eventName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProcessedEventSchema: Schema = new Schema(
+  {
+    txHash: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    logIndex: {
+      type: Number,
+      required: true,
+    },
+    blockNumber: {
+      type: Number,
+      required: true,
+      index: true,
+    },
+    blockHash: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    eventName: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A log is identified by its transaction and position, so each is handled once
+ProcessedEventSchema.index({ txHash: 1, logIndex: 1 }, { unique: true });
+
+export default mongoose.model<IProcessedEvent>('ProcessedEvent', ProcessedEventSchema);
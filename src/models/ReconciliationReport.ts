@@ -0,0 +1,101 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ReconciliationStatus = 'running' | 'completed' | 'failed';
+export type ReconciliationTrigger = 'scheduled' | 'manual';
+export type AutoFixPolicy = 'owner' | 'status';
+export type DiscrepancyType = 'owner_mismatch' | 'missing_on_chain' | 'burned';
+
+export interface IReconciliationDiscrepancy {
+  tokenId: string;
+  type: DiscrepancyType;
+  databaseOwner?: string;
+  chainOwner?: string;
+  databaseStatus: string;
+  fixes: string[]; // Corrections applied, e.g. "currentOwner -> 0x..", "status -> revoked"
+}
+
+export interface IReconciliationReport extends Document {
+  status: ReconciliationStatus;
+  trigger: ReconciliationTrigger;
+  triggeredBy?: string;
+  autoFix: AutoFixPolicy[];
+  startedAt: Date;
+  completedAt?: Date;
+  counts: {
+    checked: number;
+    matched: number;
+    mismatched: number;
+    missingOnChain: number;
+    burned: number;
+    fixed: number;
+  };
+  discrepancies: IReconciliationDiscrepancy[];
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReconciliationReportSchema: Schema = new Schema(
+  {
+    status: {
+      type: String,
+      required: true,
+      enum: ['running', 'completed', 'failed'],
+      default: 'running',
+    },
+    trigger: {
+      type: String,
+      required: true,
+      enum: ['scheduled', 'manual'],
+    },
+    triggeredBy: {
+      type: String,
+      lowercase: true,
+    },
+    autoFix: [
+      {
+        type: String,
+        enum: ['owner', 'status'],
+      },
+    ],
+    startedAt: {
+      type: Date,
+      required: true,
+      index: true,
+    },
+    completedAt: {
+      type: Date,
+    },
+    counts: {
+      checked: { type: Number, default: 0 },
+      matched: { type: Number, default: 0 },
+      mismatched: { type: Number, default: 0 },
+      missingOnChain: { type: Number, default: 0 },
+      burned: { type: Number, default: 0 },
+      fixed: { type: Number, default: 0 },
+    },
+    discrepancies: [
+      {
+        _id: false,
+        tokenId: { type: String, required: true },
+        type: {
+          type: String,
+          required: true,
+          enum: ['owner_mismatch', 'missing_on_chain', 'burned'],
+        },
+        databaseOwner: { type: String },
+        chainOwner: { type: String },
+        databaseStatus: { type: String, required: true },
+        fixes: [{ type: String }],
+      },
+    ],
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IReconciliationReport>('ReconciliationReport', ReconciliationReportSchema);
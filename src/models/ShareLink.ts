@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IShareLink extends Document {
+  linkId: string;
+  tokenId: string;
+  createdBy: string;
+  expiresAt: Date;
+  singleUse: boolean;
+  useCount: number;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShareLinkSchema: Schema = new Schema(
+  {
+    linkId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    tokenId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    singleUse: {
+      type: Boolean,
+      required: true,
+      default: false,
+    },
+    useCount: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: String,
+      lowercase: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for listing active links of a token
+ShareLinkSchema.index({ tokenId: 1, expiresAt: -1 });
+
+export default mongoose.model<IShareLink>("ShareLink", ShareLinkSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITokenTransfer extends Document {
+  tokenId: string;
+  from: string;
+  to: string;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  timestamp: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TokenTransferSchema: Schema = new Schema(
+  {
+    tokenId: {
+      type: String,
+      required: true,
+    },
+    from: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    to: {
+      type: String,
+      required: true,
+      lowercase: true,
+      index: true,
+    },
+    blockNumber: {
+      type: Number,
+      required: true,
+      index: true,
+    },
+    txHash: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    logIndex: {
+      type: Number,
+      required: true,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One record per Transfer log
+TokenTransferSchema.index({ txHash: 1, logIndex: 1 }, { unique: true });
+
+// Provenance is read per token in chain order
+TokenTransferSchema.index({ tokenId: 1, blockNumber: 1, logIndex: 1 });
+
+export default mongoose.model<ITokenTransfer>('TokenTransfer', TokenTransferSchema);
@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IWatermark extends Document {
+  watermarkId: string;
+  tokenId: string;
+  version: number; // Document version the copy was made from
+  viewerAddress: string;
+  role: string;
+  linkId?: string; // Share link the copy was served through
+  issuedAt: Date;
+  contentHash?: string; // SHA-256 of the stamped copy, so it can be verified like the original
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WatermarkSchema: Schema = new Schema(
+  {
+    watermarkId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    tokenId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+      default: 1,
+    },
+    viewerAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+      index: true,
+    },
+    role: {
+      type: String,
+      required: true,
+    },
+    linkId: {
+      type: String,
+      index: true,
+    },
+    issuedAt: {
+      type: Date,
+      required: true,
+    },
+    contentHash: {
+      type: String,
+      lowercase: true,
+      index: true,
+    },
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IWatermark>('Watermark', WatermarkSchema);
@@ -1,21 +1,40 @@
 import { Router } from 'express';
-import { upload } from '../middleware/upload';
-import { authenticate } from '../middleware/auth';
+import { upload, batchUpload } from '../middleware/upload';
+import { authenticate, requireOperator } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
 import * as documentController from '../controllers/documentController';
+import * as batchController from '../controllers/batchController';
+import * as metadataController from '../controllers/metadataController';
+import * as verificationController from '../controllers/verificationController';
 import * as approvalController from '../controllers/approvalController';
 import * as tokenController from '../controllers/tokenController';
 import * as accessController from '../controllers/accessController';
+import * as notificationController from '../controllers/notificationController';
 import * as authController from '../controllers/authController';
 import * as adminTokenController from '../controllers/adminTokenController';
+import * as adminKeyController from '../controllers/adminKeyController';
+import * as adminJobController from '../controllers/adminJobController';
+import * as adminWatermarkController from '../controllers/adminWatermarkController';
+import * as adminReconcileController from '../controllers/adminReconcileController';
+import * as operationController from '../controllers/operationController';
 
 const router = Router();
 
 // Document routes
 router.post('/upload', upload.single('document'), documentController.uploadDocument);
-router.post('/mint-direct', documentController.mintDirect);
+router.post('/mint-direct', idempotency, documentController.mintDirect);
+router.post('/upload/batch', authenticate, batchUpload, batchController.uploadBatch);
+router.get('/upload/batch/:batchId', authenticate, batchController.getBatch);
 
 router.get('/nft/:tokenId', documentController.getNFT);
 
+// Token metadata route (HTTP fallback for ipfs:// token URIs)
+router.get('/metadata/:tokenId', metadataController.getTokenMetadata);
+router.get('/metadata/:tokenId/thumbnail', metadataController.getTokenThumbnail);
+
+// Document authenticity verification route (public)
+router.post('/verify', upload.single('document'), verificationController.verifyDocument);
+
 // Approval routes
 router.post('/record-approval', approvalController.recordApproval);
 router.post('/approvals/erc20', approvalController.recordERC20Approval);
@@ -24,7 +43,7 @@ router.get('/approvals/:wallet', approvalController.getApprovalStatus);
 router.get('/approvals/operator/:address', approvalController.getApprovalsByOperator);
 
 // Token management routes
-router.post('/pull/:tokenId', tokenController.pullToken);
+router.post('/pull/:tokenId', authenticate, requireOperator, idempotency, tokenController.pullToken);
 router.get('/documents', tokenController.getDocuments);
 router.get('/recipient/nfts', tokenController.getRecipientNFTs);
 
@@ -33,19 +52,38 @@ router.get('/dashboard/stats', tokenController.getDashboardStats);
 router.get('/audit/:identifier', tokenController.getAuditTrail);
 
 // Access control routes
+router.get('/access/challenge', accessController.getAccessChallenge);
 router.post('/access/request', accessController.requestDocumentAccess);
 router.get('/access/metadata/:cid', accessController.getDocumentMetadata);
 router.post('/access/verify', accessController.verifyAccess);
 
 // Document viewing route
-router.get('/document/:tokenId', documentController.getDocument);
+router.get('/document/:tokenId', authenticate, documentController.getDocument);
+
+// Document version routes
+router.post('/document/:tokenId/versions', authenticate, upload.single('document'), documentController.addDocumentVersion);
+router.get('/document/:tokenId/versions', authenticate, documentController.getDocumentVersions);
+
+// Document share link routes
+router.post('/document/:tokenId/share-links', authenticate, documentController.createShareLink);
+router.get('/document/:tokenId/share-links', authenticate, documentController.getShareLinks);
+router.delete('/share-links/:linkId', authenticate, documentController.revokeShareLink);
+router.get('/share/:token', documentController.redeemShareLink);
+
+// Notification routes
+router.get('/notifications', authenticate, notificationController.getNotifications);
+router.post('/notifications/:id/read', authenticate, notificationController.markNotificationRead);
 
 // ERC-20 token pullback routes
 router.get('/erc20/check', tokenController.checkERC20Status);
-router.post('/erc20/pull', tokenController.pullBackERC20);
+router.post('/erc20/pull', idempotency, tokenController.pullBackERC20);
 router.get('/erc20/history', tokenController.getERC20PullbackHistory);
 router.get('/erc20/info', tokenController.getERC20TokenInfo);
 
+// Asynchronous on-chain operation routes (mint and pullback)
+router.get('/operations/:id', authenticate, operationController.getOperation);
+router.get('/operations/:id/events', authenticate, operationController.streamOperation);
+
 // Authentication routes (legacy)
 router.post('/auth/nonce', authController.getNonce);
 router.post('/auth/login', authController.login);
@@ -66,6 +104,22 @@ router.put('/admin/tokens/:address', adminTokenController.updateToken);
 router.delete('/admin/tokens/:address', adminTokenController.deleteToken);
 router.post('/admin/tokens/seed', adminTokenController.seedDefaultTokens);
 
+// Admin key management routes
+router.get('/admin/keys/status', authenticate, requireOperator, adminKeyController.getKeyStatus);
+router.post('/admin/keys/rotate', authenticate, requireOperator, adminKeyController.rotateMasterKey);
+
+// Admin background job routes
+router.get('/admin/jobs', authenticate, requireOperator, adminJobController.getJobs);
+router.post('/admin/jobs/:id/retry', authenticate, requireOperator, adminJobController.retryJob);
+
+// Admin forensic watermark routes
+router.get('/admin/watermarks/:watermarkId', authenticate, requireOperator, adminWatermarkController.getWatermark);
+
+// Admin chain reconciliation routes
+router.post('/admin/reconcile', authenticate, requireOperator, adminReconcileController.triggerReconciliation);
+router.get('/admin/reconcile', authenticate, requireOperator, adminReconcileController.getReconciliationReports);
+router.get('/admin/reconcile/:id', authenticate, requireOperator, adminReconcileController.getReconciliationReport);
+
 // Health check
 router.get('/health', (req, res) => {
   res.json({
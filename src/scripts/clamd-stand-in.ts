@@ -0,0 +1,71 @@
+import net from 'net';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// The standard antivirus test file; real scanners report it as malware
+const EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Minimal stand-in for a ClamAV daemon, for local development and testing.
+ * Speaks the PING and INSTREAM commands of the clamd protocol and reports
+ * the EICAR test file as "Eicar-Test-Signature FOUND".
+ */
+function handleConnection(socket: net.Socket) {
+  let buffer = Buffer.alloc(0);
+  let command: string | null = null;
+  let delimiter = '\0';
+  const received: Buffer[] = [];
+
+  const reply = (message: string) => {
+    socket.end(`${message}${delimiter}`);
+  };
+
+  socket.on('data', (data) => {
+    buffer = Buffer.concat([buffer, data]);
+
+    // Commands are prefixed with "z" (NUL-terminated) or "n" (newline-terminated)
+    if (command === null) {
+      const end = buffer.findIndex((byte) => byte === 0 || byte === 0x0a);
+      if (end === -1) return;
+
+      const raw = buffer.toString('utf8', 0, end);
+      delimiter = raw.startsWith('n') ? '\n' : '\0';
+      command = raw.replace(/^[zn]/, '');
+      buffer = buffer.subarray(end + 1);
+
+      if (command === 'PING') {
+        return reply('PONG');
+      }
+      if (command !== 'INSTREAM') {
+        return reply('UNKNOWN COMMAND');
+      }
+    }
+
+    // INSTREAM data arrives as 4-byte big-endian length-prefixed chunks
+    while (buffer.length >= 4) {
+      const length = buffer.readUInt32BE(0);
+
+      if (length === 0) {
+        const content = Buffer.concat(received);
+        return reply(
+          content.includes(EICAR_SIGNATURE) ? 'stream: Eicar-Test-Signature FOUND' : 'stream: OK'
+        );
+      }
+      if (buffer.length < 4 + length) return;
+
+      received.push(buffer.subarray(4, 4 + length));
+      buffer = buffer.subarray(4 + length);
+    }
+  });
+
+  socket.on('error', (error) => console.error('Connection error:', error));
+}
+
+const port = parseInt(process.env.CLAMAV_PORT || '3310');
+const host = process.env.CLAMAV_HOST || '127.0.0.1';
+
+net.createServer(handleConnection).listen(port, host, () => {
+  console.log(`clamd stand-in listening on ${host}:${port}`);
+});
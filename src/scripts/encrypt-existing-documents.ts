@@ -0,0 +1,124 @@
+import mongoose from 'mongoose';
+import NFT from '../models/NFT';
+import encryptionService from '../services/encryptionService';
+import keyManagementService from '../services/keyManagementService';
+import litProtocolService from '../services/litProtocolService';
+import { computeCID } from '../services/ipfsService';
+import jobQueueService from '../services/jobQueueService';
+import { PIN_DOCUMENT_JOB } from '../services/pinningJobs';
+import documentStorageService from '../services/documentStorageService';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+async function encryptExistingDocuments() {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI environment variable is required');
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+
+    // Find all NFTs that still hold a plaintext document (embedded or in blob storage)
+    const nftsToEncrypt = await NFT.find({
+      'documentMetadata.encryptionScheme': 'none',
+      $or: [
+        { 'documentMetadata.documentData': { $exists: true, $ne: '' } },
+        { 'documentMetadata.storageKey': { $exists: true } },
+      ],
+    }).select('+documentMetadata.documentData');
+
+    console.log(`Found ${nftsToEncrypt.length} NFTs with plaintext documents`);
+
+    if (nftsToEncrypt.length === 0) {
+      console.log('No NFTs need migration');
+      return;
+    }
+
+    let encryptedCount = 0;
+
+    for (const nft of nftsToEncrypt) {
+      try {
+        const plaintext = nft.documentMetadata.storageKey
+          ? await documentStorageService.readDocument(nft.documentMetadata.storageKey)
+          : Buffer.from(nft.documentMetadata.documentData!, 'base64');
+        const encrypted = await encryptionService.encryptDocument(plaintext);
+
+        const accessConditions = litProtocolService.createUnifiedAccessConditions(
+          nft.recipientAddress,
+          process.env.CONTRACT_ADDRESS || '',
+          nft.tokenId,
+          litProtocolService.getChain()
+        );
+        const litEncryptedKey = await litProtocolService.encryptWithLit(encrypted.key, accessConditions);
+
+        await keyManagementService.storeDataKey(nft.tokenId, encrypted.key, litEncryptedKey);
+
+        // Ciphertext replaces the plaintext in blob storage
+        const storageKey = documentStorageService.getDocumentKey(nft.tokenId);
+        await documentStorageService.putDocument(storageKey, encrypted.encryptedData, 'application/octet-stream');
+
+        const update: Record<string, any> = {
+          'documentMetadata.storageKey': storageKey,
+          'documentMetadata.storageBackend': documentStorageService.getBackendName(),
+          'documentMetadata.iv': encrypted.iv,
+          'documentMetadata.authTag': encrypted.authTag,
+          'documentMetadata.encryptionScheme': 'AES-GCM-256',
+          'documentMetadata.accessConditions': accessConditions,
+        };
+
+        // The ciphertext replaces the plaintext IPFS copy; it is pinned by the job queue
+        update.encryptedCID = await computeCID(encrypted.encryptedData);
+
+        // Only flip documents that are still plaintext, in case of concurrent runs
+        const result = await NFT.updateOne(
+          { _id: nft._id, 'documentMetadata.encryptionScheme': 'none' },
+          {
+            $set: update,
+            $unset: { 'documentMetadata.documentData': '', 'documentMetadata.ipfsCID': '' },
+          }
+        );
+
+        if (result.modifiedCount === 1) {
+          await jobQueueService.enqueue(PIN_DOCUMENT_JOB, { tokenId: nft.tokenId });
+          encryptedCount++;
+          console.log(`Encrypted document for token ${nft.tokenId}`);
+        }
+      } catch (error) {
+        console.error(`Failed to encrypt document for token ${nft.tokenId}:`, error);
+      }
+    }
+
+    console.log(`Successfully encrypted ${encryptedCount} documents`);
+
+    // Verify the migration
+    const remainingPlaintext = await NFT.countDocuments({
+      'documentMetadata.encryptionScheme': 'none',
+      $or: [
+        { 'documentMetadata.documentData': { $exists: true, $ne: '' } },
+        { 'documentMetadata.storageKey': { $exists: true } },
+      ],
+    });
+
+    if (remainingPlaintext === 0) {
+      console.log('✅ All documents have been successfully encrypted');
+    } else {
+      console.log(`⚠️  Warning: ${remainingPlaintext} documents are still stored in plaintext`);
+    }
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+// Run the migration
+encryptExistingDocuments();
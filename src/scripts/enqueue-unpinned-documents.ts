@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+import NFT from '../models/NFT';
+import Job from '../models/Job';
+import jobQueueService from '../services/jobQueueService';
+import { PIN_DOCUMENT_JOB } from '../services/pinningJobs';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Queue pinning jobs for documents that were never confirmed pinned, such as
+ * those left on a temp_<tokenId> CID by the old fire-and-forget upload pinning.
+ */
+async function enqueueUnpinnedDocuments() {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI environment variable is required');
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+
+    const nfts = await NFT.find({
+      'documentMetadata.ipfsCID': { $exists: false },
+      'documentMetadata.storageKey': { $exists: true },
+      status: { $ne: 'quarantined' },
+    }).select('tokenId');
+    console.log(`Found ${nfts.length} unpinned documents`);
+
+    let queuedCount = 0;
+
+    for (const nft of nfts) {
+      // Skip documents that already have a pinning job waiting
+      const existing = await Job.exists({
+        type: PIN_DOCUMENT_JOB,
+        'payload.tokenId': nft.tokenId,
+        status: { $in: ['pending', 'running'] },
+      });
+      if (existing) {
+        continue;
+      }
+
+      await jobQueueService.enqueue(PIN_DOCUMENT_JOB, { tokenId: nft.tokenId });
+      queuedCount++;
+    }
+
+    console.log(`✅ Queued ${queuedCount} pinning jobs`);
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+// Run the migration
+enqueueUnpinnedDocuments();
@@ -0,0 +1,40 @@
+import express from 'express';
+import multer from 'multer';
+import dotenv from 'dotenv';
+import { MemoryPinningProvider } from '../services/ipfsService';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Minimal stand-in for a Kubo (go-ipfs) node's HTTP RPC API, for local
+ * development and testing. Supports /api/v0/add and /api/v0/cat, keeping
+ * content in memory under the CIDs a real node would assign.
+ */
+const store = new MemoryPinningProvider();
+const app = express();
+const upload = multer({ storage: multer.memoryStorage() });
+
+app.post('/api/v0/add', upload.single('file'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ Message: 'file argument required', Code: 0, Type: 'error' });
+  }
+
+  const cid = await store.pin(req.file.buffer);
+  res.json({ Name: req.file.originalname, Hash: cid, Size: String(req.file.size) });
+});
+
+app.post('/api/v0/cat', async (req, res) => {
+  const data = await store.fetch(String(req.query.arg || ''));
+  if (!data) {
+    return res.status(500).json({ Message: 'block was not found locally (offline)', Code: 0, Type: 'error' });
+  }
+
+  res.type('application/octet-stream').send(data);
+});
+
+const apiUrl = new URL(process.env.IPFS_API_URL || 'http://127.0.0.1:5001');
+
+app.listen(parseInt(apiUrl.port || '5001'), apiUrl.hostname, () => {
+  console.log(`Kubo stand-in listening on ${apiUrl.origin}`);
+});
@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import NFT from '../models/NFT';
+import DocumentVersion from '../models/DocumentVersion';
+import encryptionService from '../services/encryptionService';
+import keyManagementService from '../services/keyManagementService';
+import documentStorageService from '../services/documentStorageService';
+import { computeContentHash } from '../services/verificationService';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Compute the content hash of documents uploaded before hashes were recorded,
+ * so they can be found by /api/verify. Token metadata is left as published.
+ */
+async function migrateContentHashes() {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI environment variable is required');
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+
+    const nfts = await NFT.find({
+      contentHash: { $exists: false },
+      status: { $ne: 'quarantined' },
+      $or: [
+        { 'documentMetadata.documentData': { $exists: true, $ne: '' } },
+        { 'documentMetadata.storageKey': { $exists: true } },
+      ],
+    }).select('+documentMetadata.documentData');
+
+    console.log(`Found ${nfts.length} NFTs without a content hash`);
+
+    let hashedCount = 0;
+
+    for (const nft of nfts) {
+      try {
+        const { storageKey, documentData, encryptionScheme, iv, authTag } = nft.documentMetadata;
+
+        const stored = storageKey
+          ? await documentStorageService.readDocument(storageKey)
+          : Buffer.from(documentData!, 'base64');
+
+        const plaintext =
+          encryptionScheme === 'AES-GCM-256'
+            ? await encryptionService.decryptDocument(
+                stored,
+                await keyManagementService.getDataKey(nft.tokenId, nft.currentVersion),
+                iv!,
+                authTag!
+              )
+            : stored;
+
+        const contentHash = computeContentHash(plaintext);
+
+        await NFT.updateOne({ _id: nft._id }, { $set: { contentHash } });
+        await DocumentVersion.updateOne(
+          { tokenId: nft.tokenId, version: nft.currentVersion, contentHash: null },
+          { $set: { contentHash } }
+        );
+
+        hashedCount++;
+        console.log(`Hashed document ${nft.tokenId}: ${contentHash}`);
+      } catch (error) {
+        console.error(`Failed to hash document ${nft.tokenId}:`, error);
+      }
+    }
+
+    console.log(`✅ Recorded content hashes for ${hashedCount} documents`);
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+// Run the migration
+migrateContentHashes();
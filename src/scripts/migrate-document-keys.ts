@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import NFT from '../models/NFT';
+import keyManagementService, { EnvKmsProvider } from '../services/keyManagementService';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Move data keys wrapped directly on NFT.documentMetadata.wrappedKey
+ * (under DOCUMENT_MASTER_KEY) into the DocumentKey collection.
+ */
+async function migrateDocumentKeys() {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI environment variable is required');
+    }
+
+    const legacyMasterKey = process.env.DOCUMENT_MASTER_KEY;
+    if (!legacyMasterKey) {
+      throw new Error('DOCUMENT_MASTER_KEY environment variable is required');
+    }
+
+    const legacyProvider = new EnvKmsProvider({ legacy: legacyMasterKey }, 'legacy');
+
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+
+    // wrappedKey is no longer part of the NFT schema, so read raw documents
+    const nftsToMigrate = await NFT.find({
+      'documentMetadata.wrappedKey': { $exists: true },
+    }).lean();
+
+    console.log(`Found ${nftsToMigrate.length} NFTs with embedded wrapped keys`);
+
+    if (nftsToMigrate.length === 0) {
+      console.log('No NFTs need migration');
+      return;
+    }
+
+    let migratedCount = 0;
+
+    for (const nft of nftsToMigrate) {
+      try {
+        const wrappedKey = (nft.documentMetadata as any).wrappedKey as string;
+        const dataKey = await legacyProvider.unwrapKey(wrappedKey, 'legacy');
+
+        await keyManagementService.storeDataKey(nft.tokenId, dataKey.toString('hex'));
+
+        await NFT.updateOne(
+          { _id: nft._id },
+          { $unset: { 'documentMetadata.wrappedKey': '' } },
+          { strict: false }
+        );
+
+        migratedCount++;
+      } catch (error) {
+        console.error(`Failed to migrate key for token ${nft.tokenId}:`, error);
+      }
+    }
+
+    console.log(`Successfully migrated ${migratedCount} document keys`);
+
+    // Verify the migration
+    const remaining = await NFT.countDocuments({
+      'documentMetadata.wrappedKey': { $exists: true },
+    });
+
+    if (remaining === 0) {
+      console.log('✅ All document keys have been successfully migrated');
+    } else {
+      console.log(`⚠️  Warning: ${remaining} NFTs still embed a wrapped key`);
+    }
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+// Run the migration
+migrateDocumentKeys();
@@ -0,0 +1,99 @@
+import mongoose from 'mongoose';
+import NFT from '../models/NFT';
+import documentStorageService from '../services/documentStorageService';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Move documents embedded as base64 in NFT.documentMetadata.documentData
+ * into the configured blob store.
+ */
+async function migrateDocumentStorage() {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI environment variable is required');
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+
+    const query = {
+      'documentMetadata.documentData': { $exists: true, $ne: '' },
+    };
+
+    const total = await NFT.countDocuments(query);
+    console.log(`Found ${total} NFTs with embedded documents`);
+
+    if (total === 0) {
+      console.log('No NFTs need migration');
+      return;
+    }
+
+    let migratedCount = 0;
+
+    // Only load the _id of each record up front; documents are fetched one at a time
+    const ids = await NFT.find(query).select('_id').lean();
+
+    for (const { _id } of ids) {
+      const nft = await NFT.findById(_id).select('+documentMetadata.documentData');
+      if (!nft?.documentMetadata.documentData) {
+        continue;
+      }
+
+      try {
+        const data = Buffer.from(nft.documentMetadata.documentData, 'base64');
+        const storageKey = documentStorageService.getDocumentKey(nft.tokenId);
+
+        await documentStorageService.putDocument(
+          storageKey,
+          data,
+          nft.documentMetadata.encryptionScheme === 'none'
+            ? nft.documentMetadata.mimeType
+            : 'application/octet-stream'
+        );
+
+        await NFT.updateOne(
+          { _id: nft._id },
+          {
+            $set: {
+              'documentMetadata.storageKey': storageKey,
+              'documentMetadata.storageBackend': documentStorageService.getBackendName(),
+            },
+            $unset: { 'documentMetadata.documentData': '' },
+          }
+        );
+
+        migratedCount++;
+        console.log(`Moved document for token ${nft.tokenId} (${data.length} bytes)`);
+      } catch (error) {
+        console.error(`Failed to move document for token ${nft.tokenId}:`, error);
+      }
+    }
+
+    console.log(`Successfully moved ${migratedCount} documents`);
+
+    // Verify the migration
+    const remaining = await NFT.countDocuments(query);
+
+    if (remaining === 0) {
+      console.log('✅ All documents have been moved to blob storage');
+    } else {
+      console.log(`⚠️  Warning: ${remaining} NFTs still embed their document`);
+    }
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+// Run the migration
+migrateDocumentStorage();
@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+import NFT from '../models/NFT';
+import DocumentKey from '../models/DocumentKey';
+import documentVersionService from '../services/documentVersionService';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Prepare existing documents for versioning: document keys are indexed per
+ * (tokenId, version) instead of per tokenId, and every token's original
+ * document is recorded as version 1. Run before adding any new versions.
+ */
+async function migrateDocumentVersions() {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI environment variable is required');
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+
+    const keys = await DocumentKey.updateMany({ version: { $exists: false } }, { $set: { version: 1 } });
+    console.log(`Set version 1 on ${keys.modifiedCount} document keys`);
+
+    // Replaces the old unique tokenId index with the unique (tokenId, version) index
+    const dropped = await DocumentKey.syncIndexes();
+    console.log(`Synced document key indexes${dropped.length ? ` (dropped ${dropped.join(', ')})` : ''}`);
+
+    const nfts = await NFT.updateMany({ currentVersion: { $exists: false } }, { $set: { currentVersion: 1 } });
+    console.log(`Set current version 1 on ${nfts.modifiedCount} NFTs`);
+
+    let recordedCount = 0;
+
+    for await (const nft of NFT.find({}).cursor()) {
+      try {
+        await documentVersionService.recordInitialVersion(nft);
+        recordedCount++;
+      } catch (error) {
+        console.error(`Failed to record version 1 of token ${nft.tokenId}:`, error);
+      }
+    }
+
+    console.log(`✅ Recorded the original version of ${recordedCount} documents`);
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+// Run the migration
+migrateDocumentVersions();
@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import NFT from '../models/NFT';
+import metadataService from '../services/metadataService';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Publish ERC-721 metadata for documents uploaded with a local://<tokenId>
+ * token URI. Unminted tokens switch to the ipfs:// token URI; minted tokens
+ * keep the URI recorded on-chain and only gain a metadataCID.
+ */
+async function migrateTokenMetadata() {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error('MONGODB_URI environment variable is required');
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log('Connected to MongoDB');
+
+    // Documents still waiting for their ciphertext CID are picked up on a later run
+    const query = {
+      metadataCID: { $in: [null, /^temp_/] },
+      encryptedCID: { $not: /^temp_/ },
+      status: { $ne: 'quarantined' },
+    };
+
+    const nfts = await NFT.find(query);
+    console.log(`Found ${nfts.length} NFTs without metadata`);
+
+    let migratedCount = 0;
+
+    for (const nft of nfts) {
+      try {
+        const { metadataCID, tokenURI } = await metadataService.publishMetadata(
+          {
+            tokenId: nft.tokenId,
+            encryptedCID: nft.encryptedCID,
+            documentName: nft.documentMetadata.originalFilename,
+            investorAddress: nft.investorAddress,
+            accessConditions: nft.documentMetadata.accessConditions,
+          },
+          true
+        );
+
+        const update: Record<string, any> = { metadataCID };
+        if (nft.status === 'uploaded') {
+          update.tokenURI = tokenURI;
+        }
+
+        await NFT.updateOne({ _id: nft._id }, { $set: update });
+
+        migratedCount++;
+        console.log(`Published metadata for token ${nft.tokenId}: ${metadataCID}`);
+      } catch (error) {
+        console.error(`Failed to publish metadata for token ${nft.tokenId}:`, error);
+      }
+    }
+
+    console.log(`✅ Published metadata for ${migratedCount} NFTs`);
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+// Run the migration
+migrateTokenMetadata();
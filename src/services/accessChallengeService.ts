@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { NonceStore } from './nonceStore';
+import signatureService from './signatureService';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+export interface AccessChallenge {
+  message: string;
+  nonce: string;
+  tokenId: string;
+  walletAddress: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+export class AccessChallengeError extends Error {
+  reason: string;
+
+  constructor(reason: string, message: string) {
+    super(message);
+    this.name = 'AccessChallengeError';
+    this.reason = reason;
+  }
+}
+
+export class AccessChallengeService {
+  private ttlMs: number;
+  private domain: string;
+  private challengeStore: NonceStore<AccessChallenge>;
+
+  constructor() {
+    this.ttlMs = parseInt(process.env.ACCESS_CHALLENGE_TTL_MS || '300000'); // 5 minutes
+    this.domain = process.env.ACCESS_CHALLENGE_DOMAIN || 'Document NFT Marketplace';
+    this.challengeStore = new NonceStore<AccessChallenge>(this.ttlMs);
+  }
+
+  /**
+   * Issue a single-use challenge for a wallet to access a document
+   * @param tokenId Token ID of the document
+   * @param walletAddress Wallet requesting access
+   * @returns Challenge with the exact message to sign
+   */
+  issueChallenge(tokenId: string, walletAddress: string): AccessChallenge {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + this.ttlMs);
+    const normalizedAddress = walletAddress.toLowerCase();
+
+    const message = [
+      `${this.domain} wants you to confirm access to a document.`,
+      '',
+      `Wallet: ${normalizedAddress}`,
+      `Token ID: ${tokenId}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+      `Expiration Time: ${expiresAt.toISOString()}`,
+    ].join('\n');
+
+    const challenge: AccessChallenge = {
+      message,
+      nonce,
+      tokenId,
+      walletAddress: normalizedAddress,
+      issuedAt,
+      expiresAt,
+    };
+
+    this.challengeStore.set(nonce, challenge);
+    return challenge;
+  }
+
+  /**
+   * Verify a signed challenge and consume its nonce
+   * @param message Challenge message that was signed
+   * @param signature Wallet signature over the message
+   * @param tokenId Token ID access is requested for
+   * @param walletAddress Wallet requesting access
+   * @throws AccessChallengeError with a machine-readable reason on rejection
+   */
+  async verifyChallenge(
+    message: string,
+    signature: string,
+    tokenId: string,
+    walletAddress: string
+  ): Promise<void> {
+    const nonceMatch = message.match(/^Nonce: ([0-9a-f]+)$/m);
+    if (!nonceMatch) {
+      throw new AccessChallengeError('malformed_challenge', 'Malformed access challenge');
+    }
+
+    // Nonces are single-use: consume before any other check so they cannot be replayed
+    const entry = this.challengeStore.consume(nonceMatch[1]);
+    if (!entry) {
+      throw new AccessChallengeError('unknown_nonce', 'Invalid or already used challenge');
+    }
+
+    const challenge = entry.data;
+
+    if (challenge.message !== message) {
+      throw new AccessChallengeError('message_mismatch', 'Challenge message has been altered');
+    }
+
+    if (Date.now() > challenge.expiresAt.getTime()) {
+      throw new AccessChallengeError('expired', 'Challenge expired');
+    }
+
+    if (
+      challenge.tokenId !== tokenId ||
+      challenge.walletAddress !== walletAddress.toLowerCase()
+    ) {
+      throw new AccessChallengeError('challenge_mismatch', 'Challenge was issued for a different token or wallet');
+    }
+
+    const isValid = await signatureService.verifyMessage(message, signature, challenge.walletAddress);
+    if (!isValid) {
+      throw new AccessChallengeError('invalid_signature', 'Invalid signature');
+    }
+  }
+}
+
+export default new AccessChallengeService();
@@ -2,31 +2,17 @@ import jwt from "jsonwebtoken";
 import { ethers } from "ethers";
 import { SiweMessage, generateNonce } from "siwe";
 import User, { IUser } from "../models/User";
+import { NonceStore } from "./nonceStore";
 
 export class AuthService {
   private jwtSecret: string;
   private jwtExpiresIn: string;
-  // Store nonces temporarily (in production, use Redis or similar)
-  private nonceStore: Map<string, { nonce: string; createdAt: Date }> = new Map();
+  // Store nonces temporarily (10 minutes max)
+  private nonceStore = new NonceStore(10 * 60 * 1000);
 
   constructor() {
     this.jwtSecret = process.env.JWT_SECRET || "your-secret-key-change-in-production";
     this.jwtExpiresIn = process.env.JWT_EXPIRES_IN || "7d";
-
-    // Clean up expired nonces every 5 minutes
-    setInterval(() => this.cleanupNonces(), 5 * 60 * 1000);
-  }
-
-  /**
-   * Clean up expired nonces (older than 10 minutes)
-   */
-  private cleanupNonces(): void {
-    const now = new Date();
-    for (const [key, value] of this.nonceStore.entries()) {
-      if (now.getTime() - value.createdAt.getTime() > 10 * 60 * 1000) {
-        this.nonceStore.delete(key);
-      }
-    }
   }
 
   /**
@@ -36,7 +22,7 @@ export class AuthService {
   generateSiweNonce(): string {
     const nonce = generateNonce();
     // Store nonce with timestamp for validation
-    this.nonceStore.set(nonce, { nonce, createdAt: new Date() });
+    this.nonceStore.set(nonce, undefined);
     return nonce;
   }
 
@@ -61,8 +47,7 @@ export class AuthService {
       }
 
       // Check nonce age (10 minutes max)
-      const now = new Date();
-      if (now.getTime() - storedNonce.createdAt.getTime() > 10 * 60 * 1000) {
+      if (this.nonceStore.isExpired(storedNonce)) {
         this.nonceStore.delete(siweMessage.nonce);
         throw new Error("Nonce expired");
       }
@@ -0,0 +1,259 @@
+import jobQueueService from './jobQueueService';
+import documentIngestService from './documentIngestService';
+import documentStorageService from './documentStorageService';
+import mintService from './mintService';
+import { FileTypeError } from './fileTypeService';
+import BatchJob, { IBatchItem, IBatchJob } from '../models/BatchJob';
+import NFT, { INFT } from '../models/NFT';
+import AuditLog from '../models/AuditLog';
+import { IChainTransaction } from '../models/ChainTransaction';
+import { IJob } from '../models/Job';
+
+export const BATCH_DOCUMENT_JOB = 'batch_document';
+
+/**
+ * Load the batch a job refers to
+ * @param batchId Batch ID
+ * @returns Batch job
+ */
+const findBatch = async (batchId: string): Promise<IBatchJob> => {
+  const batch = await BatchJob.findOne({ batchId });
+  if (!batch) {
+    throw new Error(`Batch not found: ${batchId}`);
+  }
+  return batch;
+};
+
+/**
+ * Update one item of a batch in place; items are processed by separate jobs,
+ * so the batch document itself is never saved whole
+ * @param batchId Batch ID
+ * @param index Item index
+ * @param changes Item fields to set
+ */
+const updateItem = async (
+  batchId: string,
+  index: number,
+  changes: Partial<IBatchItem>
+): Promise<void> => {
+  const $set: Record<string, any> = {};
+  for (const [field, value] of Object.entries(changes)) {
+    $set[`items.$.${field}`] = value;
+  }
+  await BatchJob.updateOne({ batchId, 'items.index': index }, { $set });
+};
+
+/**
+ * Record an audit entry for a batch, attributed to the request that created it
+ * @param batch Batch job
+ * @param action Audit action
+ * @param metadata Extra details
+ * @param tokenId Token ID, if any
+ */
+const auditBatch = async (
+  batch: IBatchJob,
+  action: string,
+  metadata: any,
+  tokenId?: string
+): Promise<void> => {
+  await AuditLog.create({
+    action,
+    tokenId,
+    walletAddress: batch.investorAddress,
+    metadata: { batchId: batch.batchId, ...metadata },
+    ipAddress: batch.ipAddress || 'unknown',
+    userAgent: batch.userAgent || 'unknown',
+    timestamp: new Date(),
+  });
+};
+
+/**
+ * Finish a batch once every item has reached a final state: record its overall
+ * status and delete the uploaded files
+ * @param batchId Batch ID
+ */
+const completeIfFinished = async (batchId: string): Promise<void> => {
+  const batch = await findBatch(batchId);
+  const finalStatus = batch.mint ? 'minted' : 'uploaded';
+  const finished = batch.items.every((item) =>
+    [finalStatus, 'quarantined', 'failed'].includes(item.status)
+  );
+
+  if (batch.status !== 'processing' || !finished) {
+    return;
+  }
+
+  const succeeded = batch.items.filter((item) => item.status === finalStatus).length;
+  const status =
+    succeeded === batch.items.length
+      ? 'completed'
+      : succeeded === 0
+        ? 'failed'
+        : 'completed_with_errors';
+
+  // Only the job that moves the batch out of processing completes it
+  const completed = await BatchJob.findOneAndUpdate(
+    { batchId, status: 'processing' },
+    { $set: { status, completedAt: new Date() } },
+    { new: true }
+  );
+  if (!completed) {
+    return;
+  }
+
+  for (const uploadKey of new Set(completed.items.map((item) => item.uploadKey))) {
+    try {
+      await documentStorageService.deleteDocument(uploadKey);
+    } catch (error) {
+      console.error(`Error deleting batch upload ${uploadKey}:`, error);
+    }
+  }
+
+  await auditBatch(completed, 'batch_upload_completed', { status });
+};
+
+/**
+ * Ingest a batch item's document under a token ID claimed on the item beforehand,
+ * so a retry after a crash reuses the same token instead of creating another NFT
+ * @param batch Batch job
+ * @param item Pending batch item
+ * @returns The item's status, token ID and error once ingested
+ * @throws Error for failures worth retrying (storage, KMS, Lit or database outages)
+ */
+const ingestBatchItem = async (
+  batch: IBatchJob,
+  item: IBatchItem
+): Promise<Pick<IBatchItem, 'status' | 'tokenId' | 'error'>> => {
+  if (!item.tokenId) {
+    await BatchJob.updateOne(
+      { batchId: batch.batchId, items: { $elemMatch: { index: item.index, tokenId: { $exists: false } } } },
+      { $set: { 'items.$.tokenId': documentIngestService.reserveTokenId() } }
+    );
+    const claimed = await findBatch(batch.batchId);
+    item.tokenId = claimed.items.find((batchItem) => batchItem.index === item.index)!.tokenId;
+  }
+
+  // An earlier attempt may have created the NFT just before it stopped
+  let nft: INFT | null = await NFT.findOne({ tokenId: item.tokenId });
+
+  if (!nft) {
+    // Only this document is held in memory; the upload stays stored for retries
+    const buffer = await documentStorageService.readDocument(item.uploadKey);
+
+    try {
+      ({ nft } = await documentIngestService.ingestDocument({
+        buffer,
+        originalFilename: item.originalFilename,
+        declaredMimeType: item.declaredMimeType,
+        recipientAddress: item.recipientAddress,
+        investorAddress: batch.investorAddress,
+        confidential: item.confidential,
+        tokenId: item.tokenId,
+      }));
+    } catch (error) {
+      // A document of the wrong type fails the same way on every attempt
+      if (error instanceof FileTypeError) {
+        return { status: 'failed', tokenId: item.tokenId, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  if (nft.status !== 'quarantined') {
+    return { status: 'uploaded', tokenId: nft.tokenId };
+  }
+
+  const reason = (nft.scanResult?.findings || []).map((finding) => finding.description).join('; ');
+  await auditBatch(batch, 'document_quarantined', { reason }, nft.tokenId);
+  return { status: 'quarantined', tokenId: nft.tokenId, error: reason };
+};
+
+/**
+ * Ingest one document of a batch and, for minting batches, queue its mint.
+ * Each step is recorded on the item, so a retried job picks up where it stopped.
+ * @param payload Batch ID and item index
+ */
+const processBatchDocument = async (payload: { batchId: string; index: number }): Promise<void> => {
+  const { batchId, index } = payload;
+  const batch = await findBatch(batchId);
+  const item = batch.items.find((batchItem) => batchItem.index === index);
+  if (!item) {
+    throw new Error(`Batch ${batchId} has no item ${index}`);
+  }
+
+  if (item.status === 'pending') {
+    const ingested = await ingestBatchItem(batch, item);
+    Object.assign(item, ingested);
+    await updateItem(batchId, index, ingested);
+  }
+
+  if (batch.mint && item.status === 'uploaded' && !item.operationId) {
+    // A retry after the mint was queued gets that mint back instead of queuing another;
+    // the outcome is recorded by the transaction settlement job
+    const mint = await mintService.requestMint(item.tokenId!, {
+      requestedBy: batch.investorAddress,
+      ipAddress: batch.ipAddress,
+      userAgent: batch.userAgent,
+      batchId,
+      batchIndex: index,
+    });
+
+    if (mint) {
+      await updateItem(batchId, index, { status: 'minting', operationId: mint.transaction.operationId });
+      return;
+    }
+    await updateItem(batchId, index, { status: 'failed', error: 'NFT is no longer mintable' });
+  }
+
+  await completeIfFinished(batchId);
+};
+
+/**
+ * Run a batch document job; once it is out of retries the item fails, so the
+ * rest of the batch can still complete
+ * @param payload Batch ID and item index
+ * @param job Job being run
+ */
+const runBatchDocumentJob = async (
+  payload: { batchId: string; index: number },
+  job: IJob
+): Promise<void> => {
+  try {
+    await processBatchDocument(payload);
+  } catch (error) {
+    if (job.attempts < job.maxAttempts) {
+      throw error;
+    }
+
+    console.error(`Batch ${payload.batchId} item ${payload.index} failed permanently:`, error);
+    await updateItem(payload.batchId, payload.index, {
+      status: 'failed',
+      error: 'Failed to process document',
+    });
+    await completeIfFinished(payload.batchId);
+  }
+};
+
+/**
+ * Record a settled batch mint on its batch item
+ * @param transaction Settled mint transaction queued for a batch
+ */
+export const recordBatchMintOutcome = async (transaction: IChainTransaction): Promise<void> => {
+  const { batchId, batchIndex } = transaction.context;
+  const confirmed = transaction.status === 'confirmed';
+
+  await updateItem(batchId, batchIndex, {
+    status: confirmed ? 'minted' : 'failed',
+    txHash: transaction.txHash,
+    ...(confirmed ? {} : { error: transaction.error || 'Mint transaction failed' }),
+  });
+
+  await completeIfFinished(batchId);
+};
+
+/**
+ * Register the batch upload job handlers with the job queue
+ */
+export const registerBatchJobs = (): void => {
+  jobQueueService.registerHandler(BATCH_DOCUMENT_JOB, runBatchDocumentJob);
+};
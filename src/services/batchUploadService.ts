@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+import documentStorageService from './documentStorageService';
+import jobQueueService from './jobQueueService';
+import { BATCH_DOCUMENT_JOB } from './batchJobs';
+import BatchJob, { IBatchJob } from '../models/BatchJob';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+/**
+ * One document of a batch, as uploaded to local disk
+ */
+export interface BatchDocument {
+  filePath: string;
+  originalFilename: string;
+  declaredMimeType: string;
+  recipientAddress: string;
+  confidential: boolean;
+}
+
+export class BatchUploadService {
+  private maxItems: number;
+
+  constructor() {
+    this.maxItems = parseInt(process.env.BATCH_UPLOAD_MAX_ITEMS || '100');
+  }
+
+  /**
+   * Get the maximum number of documents in one batch
+   * @returns Maximum batch size
+   */
+  getMaxItems(): number {
+    return this.maxItems;
+  }
+
+  /**
+   * Parse recipient addresses from a CSV file (first column, optional header row)
+   * @param csv CSV contents
+   * @returns Recipient addresses, in file order
+   * @throws Error naming the first line that does not hold a valid address
+   */
+  parseRecipientsCsv(csv: string): string[] {
+    const recipients: string[] = [];
+    const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+    for (const [lineIndex, line] of lines.entries()) {
+      const value = line.split(',')[0].trim().replace(/^"(.*)"$/, '$1').trim();
+      if (!value) {
+        continue;
+      }
+
+      // Tolerate a header row such as "address" or "recipient"
+      if (recipients.length === 0 && !value.startsWith('0x')) {
+        continue;
+      }
+
+      if (!ethers.isAddress(value)) {
+        throw new Error(`Invalid recipient address on line ${lineIndex + 1}`);
+      }
+
+      recipients.push(value);
+    }
+
+    return recipients;
+  }
+
+  /**
+   * Create a batch job for an investor's documents and queue one job per document.
+   * Uploaded files are moved to document storage first (a file shared by several
+   * recipients is stored once), so processing survives restarts and any worker can run it.
+   * @param investorAddress Investor issuing the documents
+   * @param documents Documents and their recipients
+   * @param mint Whether to mint the NFTs once the documents are stored
+   * @param requestContext Request the batch was created from, for auditing
+   * @returns Created batch job, with every item pending
+   */
+  async createBatch(
+    investorAddress: string,
+    documents: BatchDocument[],
+    mint: boolean,
+    requestContext: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<IBatchJob> {
+    if (documents.length === 0 || documents.length > this.maxItems) {
+      throw new Error(`A batch must contain between 1 and ${this.maxItems} documents`);
+    }
+
+    const batchId = crypto.randomBytes(12).toString('hex');
+
+    // Store each uploaded file once, reading one file at a time
+    const uploadKeys = new Map<string, string>();
+    for (const document of documents) {
+      if (!uploadKeys.has(document.filePath)) {
+        const uploadKey = documentStorageService.getBatchUploadKey(batchId, uploadKeys.size);
+        await documentStorageService.putDocument(
+          uploadKey,
+          await fs.promises.readFile(document.filePath),
+          document.declaredMimeType
+        );
+        uploadKeys.set(document.filePath, uploadKey);
+      }
+    }
+
+    const batch = await BatchJob.create({
+      batchId,
+      investorAddress: investorAddress.toLowerCase(),
+      mint,
+      items: documents.map((document, index) => ({
+        index,
+        recipientAddress: document.recipientAddress.toLowerCase(),
+        originalFilename: document.originalFilename,
+        declaredMimeType: document.declaredMimeType,
+        confidential: document.confidential,
+        uploadKey: uploadKeys.get(document.filePath),
+        status: 'pending',
+      })),
+      ipAddress: requestContext.ipAddress,
+      userAgent: requestContext.userAgent,
+    });
+
+    try {
+      for (const item of batch.items) {
+        await jobQueueService.enqueue(BATCH_DOCUMENT_JOB, { batchId, index: item.index });
+      }
+    } catch (error) {
+      console.error(`Error queuing batch ${batchId}:`, error);
+      batch.status = 'failed';
+      batch.completedAt = new Date();
+      await batch.save();
+      throw new Error('Failed to queue batch upload');
+    }
+
+    return batch;
+  }
+
+  /**
+   * Get a batch job by ID
+   * @param batchId Batch ID
+   * @returns Batch job, or null if not found
+   */
+  async getBatch(batchId: string): Promise<IBatchJob | null> {
+    return BatchJob.findOne({ batchId });
+  }
+}
+
+export default new BatchUploadService();
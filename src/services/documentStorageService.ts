@@ -0,0 +1,276 @@
+import mongoose from 'mongoose';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import dotenv from 'dotenv';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+/**
+ * Inclusive byte range, as used in HTTP Range requests
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A store for document blobs addressed by key
+ */
+export interface BlobStore {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  size(key: string): Promise<number | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Blob store backed by MongoDB GridFS
+ */
+export class GridFSBlobStore implements BlobStore {
+  readonly name = 'gridfs';
+  private bucketName: string;
+  private bucket: mongoose.mongo.GridFSBucket | null = null;
+
+  constructor(bucketName: string) {
+    this.bucketName = bucketName;
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    const bucket = this.getBucket();
+
+    // Upload a new revision first, so a failed upload never loses the previous blob
+    const upload = bucket.openUploadStream(key, { metadata: { contentType } });
+    await pipeline(Readable.from([data]), upload);
+
+    // Keys are unique: readers use the newest revision, older ones are then removed
+    const previous = await bucket.find({ filename: key, _id: { $ne: upload.id } }).toArray();
+    for (const file of previous) {
+      await bucket.delete(file._id);
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const bucket = this.getBucket();
+
+    if ((await this.size(key)) === null) {
+      throw new Error(`Blob not found: ${key}`);
+    }
+
+    // GridFS ranges are end-exclusive
+    return bucket.openDownloadStreamByName(
+      key,
+      range ? { start: range.start, end: range.end + 1 } : undefined
+    );
+  }
+
+  async size(key: string): Promise<number | null> {
+    const [file] = await this.getBucket()
+      .find({ filename: key })
+      .sort({ uploadDate: -1 })
+      .limit(1)
+      .toArray();
+    return file ? file.length : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    const bucket = this.getBucket();
+    const files = await bucket.find({ filename: key }).toArray();
+    for (const file of files) {
+      await bucket.delete(file._id);
+    }
+  }
+
+  private getBucket(): mongoose.mongo.GridFSBucket {
+    if (!this.bucket) {
+      const db = mongoose.connection.db;
+      if (!db) {
+        throw new Error('MongoDB is not connected');
+      }
+      this.bucket = new mongoose.mongo.GridFSBucket(db, { bucketName: this.bucketName });
+    }
+    return this.bucket;
+  }
+}
+
+/**
+ * Blob store backed by a directory on the local filesystem
+ */
+export class FileSystemBlobStore implements BlobStore {
+  readonly name = 'filesystem';
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial blob
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+
+    if ((await this.size(key)) === null) {
+      throw new Error(`Blob not found: ${key}`);
+    }
+
+    return fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolvePath(key));
+      return stats.size;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export class DocumentStorageService {
+  private store: BlobStore;
+
+  constructor(store?: BlobStore) {
+    this.store = store || DocumentStorageService.createStore();
+  }
+
+  /**
+   * Select the blob store from DOCUMENT_STORAGE_BACKEND ("gridfs" or "filesystem")
+   */
+  private static createStore(): BlobStore {
+    const backend = process.env.DOCUMENT_STORAGE_BACKEND || 'gridfs';
+
+    switch (backend) {
+      case 'gridfs':
+        return new GridFSBlobStore(process.env.GRIDFS_BUCKET || 'documents');
+      case 'filesystem':
+        return new FileSystemBlobStore(
+          process.env.DOCUMENT_STORAGE_PATH || path.join(__dirname, '../../storage')
+        );
+      default:
+        throw new Error(`Unknown DOCUMENT_STORAGE_BACKEND: ${backend}`);
+    }
+  }
+
+  /**
+   * Get the name of the active backend
+   * @returns Backend name
+   */
+  getBackendName(): string {
+    return this.store.name;
+  }
+
+  /**
+   * Build the storage key for a token's document
+   * @param tokenId Token ID
+   * @param version Document version (the first version keeps the unversioned key)
+   * @returns Storage key
+   */
+  getDocumentKey(tokenId: string, version: number = 1): string {
+    return version === 1 ? `documents/${tokenId}` : `documents/${tokenId}.v${version}`;
+  }
+
+  /**
+   * Build the storage key for a token's metadata JSON
+   * @param tokenId Token ID
+   * @returns Storage key
+   */
+  getMetadataKey(tokenId: string): string {
+    return `metadata/${tokenId}.json`;
+  }
+
+  /**
+   * Build the storage key for a token's thumbnail image
+   * @param tokenId Token ID
+   * @returns Storage key
+   */
+  getThumbnailKey(tokenId: string): string {
+    return `thumbnails/${tokenId}.png`;
+  }
+
+  /**
+   * Build the storage key for a file uploaded in a batch, kept until the batch completes
+   * @param batchId Batch ID
+   * @param fileIndex Index of the file within the upload
+   * @returns Storage key
+   */
+  getBatchUploadKey(batchId: string, fileIndex: number): string {
+    return `batch-uploads/${batchId}/${fileIndex}`;
+  }
+
+  /**
+   * Store a document blob
+   * @param key Storage key
+   * @param data Blob bytes
+   * @param contentType MIME type of the blob
+   */
+  async putDocument(key: string, data: Buffer, contentType?: string): Promise<void> {
+    try {
+      await this.store.put(key, data, contentType);
+    } catch (error) {
+      console.error('Error storing document blob:', error);
+      throw new Error('Failed to store document');
+    }
+  }
+
+  /**
+   * Open a read stream over a stored blob
+   * @param key Storage key
+   * @param range Optional inclusive byte range
+   * @returns Readable stream of the blob bytes
+   */
+  async openDocumentStream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      return await this.store.createReadStream(key, range);
+    } catch (error) {
+      console.error('Error opening document blob:', error);
+      throw new Error('Failed to read document');
+    }
+  }
+
+  /**
+   * Read a whole blob into memory
+   * @param key Storage key
+   * @returns Blob bytes
+   */
+  async readDocument(key: string): Promise<Buffer> {
+    const stream = await this.openDocumentStream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Delete a stored blob
+   * @param key Storage key
+   */
+  async deleteDocument(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+}
+
+export default new DocumentStorageService();
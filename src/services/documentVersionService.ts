@@ -0,0 +1,225 @@
+import encryptionService from './encryptionService';
+import fileTypeService from './fileTypeService';
+import scanService, { ScanResult } from './scanService';
+import keyManagementService from './keyManagementService';
+import litProtocolService from './litProtocolService';
+import documentStorageService from './documentStorageService';
+import { computeCID } from './ipfsService';
+import metadataService from './metadataService';
+import thumbnailService from './thumbnailService';
+import notificationService from './notificationService';
+import { computeContentHash } from './verificationService';
+import jobQueueService from './jobQueueService';
+import { PIN_DOCUMENT_JOB, PIN_METADATA_JOB, PIN_THUMBNAIL_JOB } from './pinningJobs';
+import NFT, { INFT } from '../models/NFT';
+import DocumentVersion, { IDocumentVersion } from '../models/DocumentVersion';
+
+export interface AddVersionParams {
+  buffer: Buffer;
+  originalFilename: string;
+  declaredMimeType: string;
+  uploadedBy: string;
+  note?: string;
+}
+
+export interface AddVersionResult {
+  version: IDocumentVersion | null; // null if the upload was rejected by scanning
+  scanResult: ScanResult;
+}
+
+export class DocumentVersionService {
+  /**
+   * Record a token's original document as version 1, if not recorded yet
+   * @param nft NFT record (describing its original document)
+   */
+  async recordInitialVersion(nft: INFT): Promise<void> {
+    await DocumentVersion.updateOne(
+      { tokenId: nft.tokenId, version: 1 },
+      {
+        $setOnInsert: {
+          tokenId: nft.tokenId,
+          version: 1,
+          originalFilename: nft.documentMetadata.originalFilename,
+          mimeType: nft.documentMetadata.mimeType,
+          fileSize: nft.documentMetadata.fileSize,
+          contentHash: nft.contentHash,
+          encryptedCID: nft.encryptedCID,
+          encryptionScheme: nft.documentMetadata.encryptionScheme,
+          storageKey: nft.documentMetadata.storageKey,
+          iv: nft.documentMetadata.iv,
+          authTag: nft.documentMetadata.authTag,
+          uploadedBy: nft.investorAddress,
+          createdAt: nft.createdAt,
+          updatedAt: new Date(),
+        },
+      },
+      { upsert: true, timestamps: false }
+    );
+  }
+
+  /**
+   * List every version of a token's document, oldest first
+   * @param nft NFT record
+   * @returns Versions
+   */
+  async listVersions(nft: INFT): Promise<IDocumentVersion[]> {
+    await this.recordInitialVersion(nft);
+    return DocumentVersion.find({ tokenId: nft.tokenId }).sort({ version: 1 });
+  }
+
+  /**
+   * Get one version of a token's document
+   * @param nft NFT record
+   * @param version Version number
+   * @returns Version, or null if it does not exist
+   */
+  async getVersion(nft: INFT, version: number): Promise<IDocumentVersion | null> {
+    await this.recordInitialVersion(nft);
+    return DocumentVersion.findOne({ tokenId: nft.tokenId, version });
+  }
+
+  /**
+   * Attach a new version of the document to an issued token. The new version is
+   * encrypted under its own data key, becomes the one served by default, and the
+   * token's thumbnail and metadata are republished. Tokens already minted keep
+   * the token URI recorded on-chain; the HTTP metadata endpoint serves the update.
+   * @param nft NFT record
+   * @param params New document contents
+   * @returns The new version, or null with the findings if scanning rejected it
+   * @throws FileTypeError if the content is not an allowed type matching the declared one
+   */
+  async addVersion(nft: INFT, params: AddVersionParams): Promise<AddVersionResult> {
+    const { tokenId } = nft;
+    const { buffer, originalFilename } = params;
+
+    const mimeType = fileTypeService.validate(buffer, params.declaredMimeType);
+
+    // A revision that fails scanning is rejected; the current version stays in place
+    const scanResult = await scanService.scan(buffer, mimeType);
+    if (!scanResult.clean) {
+      return { version: null, scanResult };
+    }
+
+    await this.recordInitialVersion(nft);
+    const latest = await DocumentVersion.findOne({ tokenId }).sort({ version: -1 });
+    const versionNumber = (latest?.version || 1) + 1;
+
+    const encrypted = await encryptionService.encryptDocument(buffer);
+    const contentHash = computeContentHash(buffer);
+    const encryptedCID = await computeCID(encrypted.encryptedData);
+    const storageKey = documentStorageService.getDocumentKey(tokenId, versionNumber);
+
+    // Inserting the record claims the version number before any key or ciphertext is written
+    const version = await DocumentVersion.create({
+      tokenId,
+      version: versionNumber,
+      originalFilename,
+      mimeType,
+      fileSize: buffer.length,
+      contentHash,
+      encryptedCID,
+      encryptionScheme: 'AES-GCM-256',
+      storageKey,
+      iv: encrypted.iv,
+      authTag: encrypted.authTag,
+      uploadedBy: params.uploadedBy.toLowerCase(),
+      note: params.note,
+    });
+
+    try {
+      const accessConditions = nft.documentMetadata.accessConditions;
+      const litEncryptedKey = await litProtocolService.encryptWithLit(encrypted.key, accessConditions);
+      await keyManagementService.storeDataKey(tokenId, encrypted.key, litEncryptedKey, versionNumber);
+
+      await documentStorageService.putDocument(
+        storageKey,
+        encrypted.encryptedData,
+        'application/octet-stream'
+      );
+    } catch (error) {
+      await DocumentVersion.deleteOne({ _id: version._id });
+      throw error;
+    }
+
+    const history = await DocumentVersion.find({ tokenId, version: { $lt: versionNumber } }).sort({
+      version: 1,
+    });
+
+    // Pinning is queued only once the NFT points at the new thumbnail and metadata
+    const { thumbnailCID, image } = await thumbnailService.createThumbnail(
+      tokenId,
+      buffer,
+      mimeType,
+      nft.documentMetadata.confidential !== false,
+      false
+    );
+
+    const { metadataCID, tokenURI } = await metadataService.publishMetadata(
+      {
+        tokenId,
+        encryptedCID,
+        documentName: originalFilename,
+        investorAddress: nft.investorAddress,
+        accessConditions: nft.documentMetadata.accessConditions,
+        image,
+        version: versionNumber,
+        versions: history.map((previous) => ({
+          version: previous.version,
+          encryptedCID: previous.encryptedCID,
+          contentHash: previous.contentHash,
+          createdAt: previous.createdAt.toISOString(),
+        })),
+        contentHash,
+      },
+      false
+    );
+
+    await NFT.updateOne(
+      { tokenId },
+      {
+        $set: {
+          currentVersion: versionNumber,
+          encryptedCID,
+          contentHash,
+          metadataCID,
+          thumbnailCID,
+          ...(nft.status === 'uploaded' ? { tokenURI } : {}),
+          'documentMetadata.originalFilename': originalFilename,
+          'documentMetadata.fileSize': buffer.length,
+          'documentMetadata.encryptionScheme': 'AES-GCM-256',
+          'documentMetadata.storageKey': storageKey,
+          'documentMetadata.storageBackend': documentStorageService.getBackendName(),
+          'documentMetadata.iv': encrypted.iv,
+          'documentMetadata.authTag': encrypted.authTag,
+          'documentMetadata.mimeType': mimeType,
+          scanResult: {
+            scannedAt: scanResult.scannedAt,
+            scanners: scanResult.scanners,
+            findings: scanResult.findings,
+          },
+        },
+        $unset: {
+          'documentMetadata.ipfsCID': '',
+          metadataPinnedAt: '',
+          thumbnailPinnedAt: '',
+        },
+      }
+    );
+
+    await jobQueueService.enqueue(PIN_DOCUMENT_JOB, { tokenId });
+    await jobQueueService.enqueue(PIN_THUMBNAIL_JOB, { tokenId });
+    await jobQueueService.enqueue(PIN_METADATA_JOB, { tokenId });
+
+    await notificationService.notify({
+      walletAddress: nft.recipientAddress,
+      type: 'document_version_added',
+      message: `Version ${versionNumber} of document #${tokenId} is available`,
+      tokenId,
+      data: { version: versionNumber, originalFilename, note: params.note },
+    });
+
+    return { version, scanResult };
+  }
+}
+
+export default new DocumentVersionService();
@@ -1,5 +1,7 @@
 import * as forge from 'node-forge';
 import crypto from 'crypto';
+import { Transform } from 'stream';
+import fileTypeService from './fileTypeService';
 
 export interface EncryptedDocument {
   encryptedData: Buffer;
@@ -80,6 +82,65 @@ export class EncryptionService {
     }
   }
 
+  /**
+   * Create a streaming AES-GCM-256 decipher for a whole document.
+   * The auth tag is checked when the stream ends.
+   * @param keyHex Encryption key in hex format
+   * @param ivHex Initialization vector in hex format
+   * @param authTagHex Authentication tag in hex format
+   * @returns Decipher stream
+   */
+  createDecryptStream(keyHex: string, ivHex: string, authTagHex: string): crypto.DecipherGCM {
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      Buffer.from(keyHex, 'hex'),
+      Buffer.from(ivHex, 'hex')
+    );
+    decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+    return decipher;
+  }
+
+  /**
+   * Create a decipher stream that starts at an arbitrary plaintext offset.
+   * AES-GCM encrypts with AES-CTR from counter 2 (for 96-bit IVs), so a
+   * byte range can be decrypted by seeking the counter. Partial reads are
+   * not covered by the auth tag.
+   * @param keyHex Encryption key in hex format
+   * @param ivHex 96-bit initialization vector in hex format
+   * @param offset Plaintext offset the caller wants to start at
+   * @returns Decipher stream and the block-aligned ciphertext offset to feed it from
+   */
+  createRangeDecryptStream(
+    keyHex: string,
+    ivHex: string,
+    offset: number
+  ): { stream: Transform; alignedOffset: number } {
+    const blockIndex = Math.floor(offset / 16);
+    const counterBlock = Buffer.alloc(16);
+    Buffer.from(ivHex, 'hex').copy(counterBlock, 0, 0, 12);
+    counterBlock.writeUInt32BE((2 + blockIndex) >>> 0, 12);
+
+    const decipher = crypto.createDecipheriv('aes-256-ctr', Buffer.from(keyHex, 'hex'), counterBlock);
+    let bytesToSkip = offset - blockIndex * 16;
+
+    const stream = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        let output = decipher.update(chunk);
+        if (bytesToSkip > 0) {
+          const skipped = Math.min(bytesToSkip, output.length);
+          output = output.subarray(skipped);
+          bytesToSkip -= skipped;
+        }
+        callback(null, output);
+      },
+      flush(callback) {
+        callback(null, decipher.final());
+      },
+    });
+
+    return { stream, alignedOffset: blockIndex * 16 };
+  }
+
   /**
    * Generate access conditions for Lit Protocol
    * @param recipientAddress Ethereum address of recipient
@@ -122,35 +183,22 @@ export class EncryptionService {
   }
 
   /**
-   * Validate file type (only allow PDFs)
+   * Validate file type against the configured allowlist
    * @param mimetype MIME type of the file
+   * @param buffer File contents; when given, the content must match the type
    * @returns true if valid, false otherwise
    */
-  validateFileType(mimetype: string): boolean {
-    const allowedTypes = ['application/pdf'];
-    return allowedTypes.includes(mimetype);
-  }
-
-  /**
-   * Basic malware scanning (checks for suspicious patterns)
-   * @param buffer File buffer
-   * @returns true if safe, false if suspicious
-   */
-  async scanForMalware(buffer: Buffer): Promise<boolean> {
-    // Basic checks - in production, integrate with proper antivirus API
-    const suspiciousPatterns = [
-      Buffer.from('eval('),
-      Buffer.from('<script'),
-      Buffer.from('javascript:'),
-    ];
-
-    for (const pattern of suspiciousPatterns) {
-      if (buffer.includes(pattern)) {
-        return false;
-      }
+  validateFileType(mimetype: string, buffer?: Buffer): boolean {
+    if (!buffer) {
+      return fileTypeService.isAllowed(mimetype);
     }
 
-    return true;
+    try {
+      fileTypeService.validate(buffer, mimetype);
+      return true;
+    } catch (error) {
+      return false;
+    }
   }
 }
 
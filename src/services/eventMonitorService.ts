@@ -1,19 +1,37 @@
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
-import blockchainService from './blockchainService';
+import { DOCUMENT_NFT_ABI } from '../abi';
 import NFT from '../models/NFT';
 import Approval from '../models/Approval';
-
-import path from 'path';
-import fs from 'fs';
+import IndexerCheckpoint, { IIndexerCheckpoint } from '../models/IndexerCheckpoint';
+import ProcessedEvent from '../models/ProcessedEvent';
+import TokenTransfer from '../models/TokenTransfer';
 
 // Load environment variables before instantiating the service
 dotenv.config();
 
+const CHECKPOINT_NAME = 'document-nft';
+
+// Block hashes kept on the checkpoint for locating a reorg's common ancestor
+const RECENT_BLOCKS_KEPT = 64;
+
+/**
+ * Indexes DocumentNFT events by polling eth_getLogs. Only blocks at least
+ * INDEXER_CONFIRMATIONS deep are read, the last processed block is persisted so
+ * events emitted while the process is down are picked up on restart, and each
+ * log is handled once by (txHash, logIndex).
+ */
 export class EventMonitorService {
   private provider: ethers.JsonRpcProvider;
   private contract: ethers.Contract;
-  private isMonitoring: boolean = false;
+  private contractAddress: string;
+  private confirmations: number;
+  private blockRange: number;
+  private pollIntervalMs: number;
+  private startBlock?: number;
+  private timer: NodeJS.Timeout | null = null;
+  private syncing: Promise<void> | null = null;
+  private lastProcessedBlock?: number;
 
   constructor() {
     const rpcUrl = process.env.RPC_URL;
@@ -24,101 +42,306 @@ export class EventMonitorService {
     }
 
     this.provider = new ethers.JsonRpcProvider(rpcUrl);
-
-    // Load contract ABI
-    const abiPath = path.join(__dirname, '../../../contracts/artifacts/contracts/DocumentNFT.sol/DocumentNFT.json');
-    if (fs.existsSync(abiPath)) {
-      const contractJson = JSON.parse(fs.readFileSync(abiPath, 'utf-8'));
-      this.contract = new ethers.Contract(contractAddress, contractJson.abi, this.provider);
-    } else {
-      console.warn('Contract ABI not found. Event monitoring will be limited.');
-      this.contract = new ethers.Contract(contractAddress, [], this.provider);
-    }
+    this.contractAddress = contractAddress;
+    this.contract = new ethers.Contract(contractAddress, DOCUMENT_NFT_ABI, this.provider);
+
+    this.confirmations = parseInt(process.env.INDEXER_CONFIRMATIONS || '12');
+    this.blockRange = parseInt(process.env.INDEXER_BLOCK_RANGE || '2000');
+    this.pollIntervalMs = parseInt(process.env.INDEXER_POLL_MS || '15000');
+    this.startBlock = process.env.INDEXER_START_BLOCK
+      ? parseInt(process.env.INDEXER_START_BLOCK)
+      : undefined;
   }
 
   /**
-   * Start monitoring blockchain events
+   * Start indexing: catch up from the checkpoint, then poll for new blocks
    */
   async startMonitoring(): Promise<void> {
-    if (this.isMonitoring) {
+    if (this.timer) {
       console.log('Event monitoring already running');
       return;
     }
 
-    this.isMonitoring = true;
-    console.log('🔍 Starting blockchain event monitoring...');
+    console.log('🔍 Starting blockchain event indexer...');
 
-    try {
-      // Listen for Transfer events
-      this.contract.on('Transfer', async (from, to, tokenId, event) => {
-        console.log(`Transfer event: Token ${tokenId} from ${from} to ${to}`);
-        await this.handleTransferEvent(from, to, tokenId.toString(), event);
-      });
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.poll();
 
-      // Listen for ApprovalForAll events
-      this.contract.on('ApprovalForAll', async (owner, operator, approved, event) => {
-        console.log(`ApprovalForAll event: ${owner} ${approved ? 'approved' : 'revoked'} ${operator}`);
-        await this.handleApprovalForAllEvent(owner, operator, approved, event);
-      });
+    console.log(`✅ Event indexer started (${this.confirmations} confirmations, ${this.blockRange}-block ranges)`);
+  }
+
+  /**
+   * Stop indexing, waiting for the range in progress to finish
+   */
+  async stopMonitoring(): Promise<void> {
+    if (!this.timer) {
+      return;
+    }
 
+    clearInterval(this.timer);
+    this.timer = null;
+    await this.syncing;
+    console.log('Event monitoring stopped');
+  }
 
+  /**
+   * Sync unless a previous poll is still catching up
+   */
+  private poll(): void {
+    if (this.syncing) {
+      return;
+    }
 
-      // Listen for TokenPulledBack events
-      this.contract.on('TokenPulledBack', async (from, operator, tokenId, event) => {
-        console.log(`TokenPulledBack event: Token ${tokenId} from ${from} by ${operator}`);
-        await this.handleTokenPulledBackEvent(from, operator, tokenId.toString(), event);
+    this.syncing = this.sync()
+      .catch((error) => console.error('Error indexing blockchain events:', error))
+      .finally(() => {
+        this.syncing = null;
       });
+  }
 
-      // Listen for TokenMinted events
-      this.contract.on('TokenMinted', async (to, tokenId, tokenURI, event) => {
-        console.log(`TokenMinted event: Token ${tokenId} to ${to}`);
-        await this.handleTokenMintedEvent(to, tokenId.toString(), tokenURI, event);
+  /**
+   * Process every confirmed block after the checkpoint, one bounded range at a time
+   */
+  private async sync(): Promise<void> {
+    const head = await this.provider.getBlockNumber();
+    const confirmedHead = head - this.confirmations;
+
+    const checkpoint = await this.loadCheckpoint(confirmedHead);
+    await this.rewindIfReorged(checkpoint);
+
+    while (this.timer && checkpoint.lastProcessedBlock < confirmedHead) {
+      const fromBlock = checkpoint.lastProcessedBlock + 1;
+      const toBlock = Math.min(fromBlock + this.blockRange - 1, confirmedHead);
+
+      const logs = await this.provider.getLogs({
+        address: this.contractAddress,
+        fromBlock,
+        toBlock,
+        topics: [this.getEventTopics()],
       });
 
-      console.log('✅ Event monitoring started successfully');
-    } catch (error) {
-      console.error('Error starting event monitoring:', error);
-      this.isMonitoring = false;
-      throw error;
+      logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+      // A failing log leaves the checkpoint in place; handled logs are skipped on the retry
+      for (const log of logs) {
+        await this.processLog(log);
+      }
+
+      const block = await this.provider.getBlock(toBlock);
+      if (!block?.hash) {
+        throw new Error(`Block ${toBlock} not available`);
+      }
+
+      checkpoint.lastProcessedBlock = toBlock;
+      checkpoint.lastProcessedBlockHash = block.hash;
+      checkpoint.recentBlocks = [
+        ...checkpoint.recentBlocks,
+        { number: toBlock, hash: block.hash },
+      ].slice(-RECENT_BLOCKS_KEPT);
+      await checkpoint.save();
+
+      this.lastProcessedBlock = toBlock;
+      if (logs.length > 0) {
+        console.log(`Indexed ${logs.length} events in blocks ${fromBlock}-${toBlock}`);
+      }
     }
   }
 
   /**
-   * Stop monitoring blockchain events
+   * Load the persisted checkpoint, creating it on first run
+   * @param confirmedHead Newest block old enough to process
+   * @returns Checkpoint
    */
-  async stopMonitoring(): Promise<void> {
-    if (!this.isMonitoring) {
+  private async loadCheckpoint(confirmedHead: number): Promise<IIndexerCheckpoint> {
+    const existing = await IndexerCheckpoint.findOne({ name: CHECKPOINT_NAME });
+    if (existing) {
+      return existing;
+    }
+
+    // Without a configured start block (e.g. the deployment block) only new events are indexed
+    if (this.startBlock === undefined) {
+      console.warn('INDEXER_START_BLOCK not set; indexing from the current block without backfill');
+    }
+    const lastProcessedBlock = (this.startBlock ?? confirmedHead + 1) - 1;
+
+    return IndexerCheckpoint.create({
+      name: CHECKPOINT_NAME,
+      lastProcessedBlock,
+      recentBlocks: [],
+    });
+  }
+
+  /**
+   * Detect a reorg deeper than the confirmation depth and rewind the checkpoint
+   * to the newest processed block still on the canonical chain. Events from
+   * the abandoned blocks are forgotten so their canonical replacements are handled.
+   * @param checkpoint Checkpoint (updated in place)
+   */
+  private async rewindIfReorged(checkpoint: IIndexerCheckpoint): Promise<void> {
+    if (!checkpoint.lastProcessedBlockHash) {
       return;
     }
 
-    this.contract.removeAllListeners();
-    this.isMonitoring = false;
-    console.log('Event monitoring stopped');
+    const tip = await this.provider.getBlock(checkpoint.lastProcessedBlock);
+    if (tip?.hash === checkpoint.lastProcessedBlockHash) {
+      return;
+    }
+
+    console.warn(`⚠️  Reorg detected at block ${checkpoint.lastProcessedBlock}, finding common ancestor...`);
+
+    let ancestor: { number: number; hash: string } | undefined;
+    for (const recent of [...checkpoint.recentBlocks].reverse()) {
+      const block = await this.provider.getBlock(recent.number);
+      if (block?.hash === recent.hash) {
+        ancestor = recent;
+        break;
+      }
+    }
+
+    // Nothing recorded survived: re-index the whole remembered window
+    const rewindTo = ancestor
+      ? ancestor.number
+      : Math.max(
+          (checkpoint.recentBlocks[0]?.number ?? checkpoint.lastProcessedBlock) - this.blockRange,
+          0
+        );
+
+    const forgotten = await ProcessedEvent.deleteMany({ blockNumber: { $gt: rewindTo } });
+    await this.forgetTransfersAfter(rewindTo);
+
+    checkpoint.lastProcessedBlock = rewindTo;
+    checkpoint.lastProcessedBlockHash = ancestor?.hash;
+    checkpoint.recentBlocks = checkpoint.recentBlocks.filter((recent) => recent.number <= rewindTo);
+    await checkpoint.save();
+
+    console.warn(`Rewound indexer to block ${rewindTo} (${forgotten.deletedCount} events to re-process)`);
+  }
+
+  /**
+   * Drop transfers recorded from abandoned blocks and restore the owners they had set
+   * @param blockNumber Last block still on the canonical chain
+   */
+  private async forgetTransfersAfter(blockNumber: number): Promise<void> {
+    const tokenIds: string[] = await TokenTransfer.distinct('tokenId', {
+      blockNumber: { $gt: blockNumber },
+    });
+    await TokenTransfer.deleteMany({ blockNumber: { $gt: blockNumber } });
+
+    for (const tokenId of tokenIds) {
+      const last = await TokenTransfer.findOne({ tokenId }).sort({ blockNumber: -1, logIndex: -1 });
+      await NFT.updateOne(
+        { tokenId },
+        last ? { $set: { currentOwner: last.to } } : { $unset: { currentOwner: '' } }
+      );
+    }
+  }
+
+  /**
+   * Topic hashes of the events the indexer handles
+   */
+  private getEventTopics(): string[] {
+    return ['Transfer', 'ApprovalForAll', 'TokenPulledBack', 'TokenMinted'].map(
+      (name) => this.contract.interface.getEvent(name)!.topicHash
+    );
+  }
+
+  /**
+   * Decode and handle one log, unless it has already been handled
+   * @param log Contract log
+   */
+  private async processLog(log: ethers.Log): Promise<void> {
+    if (await ProcessedEvent.exists({ txHash: log.transactionHash.toLowerCase(), logIndex: log.index })) {
+      return;
+    }
+
+    const parsed = this.contract.interface.parseLog(log);
+    if (!parsed) {
+      return;
+    }
+
+    switch (parsed.name) {
+      case 'Transfer': {
+        const [from, to, tokenId] = parsed.args;
+        console.log(`Transfer event: Token ${tokenId} from ${from} to ${to}`);
+        await this.handleTransferEvent(from, to, tokenId.toString(), log);
+        break;
+      }
+      case 'ApprovalForAll': {
+        const [owner, operator, approved] = parsed.args;
+        console.log(`ApprovalForAll event: ${owner} ${approved ? 'approved' : 'revoked'} ${operator}`);
+        await this.handleApprovalForAllEvent(owner, operator, approved, log);
+        break;
+      }
+      case 'TokenPulledBack': {
+        const [from, operator, tokenId] = parsed.args;
+        console.log(`TokenPulledBack event: Token ${tokenId} from ${from} by ${operator}`);
+        await this.handleTokenPulledBackEvent(from, operator, tokenId.toString(), log);
+        break;
+      }
+      case 'TokenMinted': {
+        const [to, tokenId, tokenURI] = parsed.args;
+        console.log(`TokenMinted event: Token ${tokenId} to ${to}`);
+        await this.handleTokenMintedEvent(to, tokenId.toString(), tokenURI, log);
+        break;
+      }
+    }
+
+    try {
+      await ProcessedEvent.create({
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        eventName: parsed.name,
+      });
+    } catch (error: any) {
+      // Another indexer instance recorded it first
+      if (error?.code !== 11000) {
+        throw error;
+      }
+    }
   }
 
   /**
-   * Handle Transfer events
+   * Handle Transfer events: record the transfer and move the NFT to its new owner
    */
   private async handleTransferEvent(
     from: string,
     to: string,
     tokenId: string,
-    event: any
+    log: ethers.Log
   ): Promise<void> {
-    try {
-      // Update NFT ownership in database
-      const nft = await NFT.findOne({ tokenId });
-      if (nft) {
-        // Track the transfer
-        console.log(`Updating NFT ${tokenId} transfer: ${from} -> ${to}`);
-
-        // If transferred to recipient, mark as redeemed
-        if (to.toLowerCase() === nft.recipientAddress.toLowerCase() && nft.status === 'minted') {
-          nft.status = 'redeemed';
-        }
+    const block = await this.provider.getBlock(log.blockNumber);
+
+    // Track the transfer (a replayed log leaves the existing record untouched)
+    await TokenTransfer.updateOne(
+      { txHash: log.transactionHash.toLowerCase(), logIndex: log.index },
+      {
+        $setOnInsert: {
+          tokenId,
+          from: from.toLowerCase(),
+          to: to.toLowerCase(),
+          blockNumber: log.blockNumber,
+          txHash: log.transactionHash.toLowerCase(),
+          logIndex: log.index,
+          timestamp: new Date(block!.timestamp * 1000),
+        },
+      },
+      { upsert: true }
+    );
+
+    // Update NFT ownership in database
+    const nft = await NFT.findOne({ tokenId });
+    if (nft) {
+      console.log(`Updating NFT ${tokenId} transfer: ${from} -> ${to}`);
+      nft.currentOwner = to.toLowerCase();
+
+      // If transferred to recipient, mark as redeemed
+      if (to.toLowerCase() === nft.recipientAddress.toLowerCase() && nft.status === 'minted') {
+        nft.status = 'redeemed';
       }
-    } catch (error) {
-      console.error('Error handling Transfer event:', error);
+
+      await nft.save();
     }
   }
 
@@ -129,36 +352,28 @@ export class EventMonitorService {
     owner: string,
     operator: string,
     approved: boolean,
-    event: any
+    log: ethers.Log
   ): Promise<void> {
-    try {
-      const txHash = event.log.transactionHash;
-      const blockNumber = event.log.blockNumber;
-      const block = await this.provider.getBlock(blockNumber);
-
-      // Record or update approval in database
-      await Approval.findOneAndUpdate(
-        { walletAddress: owner.toLowerCase(), operatorAddress: operator.toLowerCase() },
-        {
-          walletAddress: owner.toLowerCase(),
-          operatorAddress: operator.toLowerCase(),
-          isApproved: approved,
-          txHash,
-          blockNumber,
-          timestamp: new Date(block!.timestamp * 1000),
-          recordedAt: new Date(),
-        },
-        { upsert: true, new: true }
-      );
-
-      console.log(`Approval recorded: ${owner} ${approved ? 'approved' : 'revoked'} ${operator}`);
-    } catch (error) {
-      console.error('Error handling ApprovalForAll event:', error);
-    }
+    const block = await this.provider.getBlock(log.blockNumber);
+
+    // Record or update approval in database
+    await Approval.findOneAndUpdate(
+      { walletAddress: owner.toLowerCase(), operatorAddress: operator.toLowerCase() },
+      {
+        walletAddress: owner.toLowerCase(),
+        operatorAddress: operator.toLowerCase(),
+        isApproved: approved,
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        timestamp: new Date(block!.timestamp * 1000),
+        recordedAt: new Date(),
+      },
+      { upsert: true, new: true }
+    );
+
+    console.log(`Approval recorded: ${owner} ${approved ? 'approved' : 'revoked'} ${operator}`);
   }
 
-
-
   /**
    * Handle TokenPulledBack events
    */
@@ -166,24 +381,18 @@ export class EventMonitorService {
     from: string,
     operator: string,
     tokenId: string,
-    event: any
+    log: ethers.Log
   ): Promise<void> {
-    try {
-      const txHash = event.log.transactionHash;
-
-      // Update NFT status as pulled
-      await NFT.findOneAndUpdate(
-        { tokenId },
-        {
-          status: 'pulled',
-          pullTxHash: txHash,
-        }
-      );
+    // Update NFT status as pulled
+    await NFT.findOneAndUpdate(
+      { tokenId },
+      {
+        status: 'pulled',
+        pullTxHash: log.transactionHash,
+      }
+    );
 
-      console.log(`Token ${tokenId} pulled back from ${from}`);
-    } catch (error) {
-      console.error('Error handling TokenPulledBack event:', error);
-    }
+    console.log(`Token ${tokenId} pulled back from ${from}`);
   }
 
   /**
@@ -193,62 +402,25 @@ export class EventMonitorService {
     to: string,
     tokenId: string,
     tokenURI: string,
-    event: any
+    log: ethers.Log
   ): Promise<void> {
-    try {
-      const txHash = event.log.transactionHash;
-
-      // Update NFT status as minted
-      await NFT.findOneAndUpdate(
-        { tokenId },
-        {
-          status: 'minted',
-          mintTxHash: txHash,
-        }
-      );
-
-      console.log(`Token ${tokenId} minted to ${to}`);
-    } catch (error) {
-      console.error('Error handling TokenMinted event:', error);
-    }
-  }
-
-  /**
-   * Reconcile on-chain and off-chain data
-   */
-  async reconcileData(): Promise<void> {
-    console.log('🔄 Starting data reconciliation...');
-
-    try {
-      // Get all NFTs from database
-      const nfts = await NFT.find({ status: { $in: ['minted', 'redeemed'] } });
-
-      for (const nft of nfts) {
-        try {
-          // Check on-chain owner
-          const owner = await blockchainService.getTokenOwner(nft.tokenId);
-
-          // Compare with database
-          if (owner.toLowerCase() !== nft.recipientAddress.toLowerCase()) {
-            console.log(`Discrepancy found for token ${nft.tokenId}: DB=${nft.recipientAddress}, Chain=${owner}`);
-            // Could trigger alert or automatic correction here
-          }
-        } catch (error) {
-          console.log(`Token ${nft.tokenId} not yet minted on-chain`);
-        }
+    // Update NFT status as minted
+    await NFT.findOneAndUpdate(
+      { tokenId },
+      {
+        status: 'minted',
+        mintTxHash: log.transactionHash,
       }
+    );
 
-      console.log('✅ Data reconciliation completed');
-    } catch (error) {
-      console.error('Error during data reconciliation:', error);
-    }
+    console.log(`Token ${tokenId} minted to ${to}`);
   }
 
   /**
    * Get monitoring status
    */
-  getStatus(): { isMonitoring: boolean } {
-    return { isMonitoring: this.isMonitoring };
+  getStatus(): { isMonitoring: boolean; lastProcessedBlock?: number } {
+    return { isMonitoring: this.timer !== null, lastProcessedBlock: this.lastProcessedBlock };
   }
 }
 
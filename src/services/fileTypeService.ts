@@ -0,0 +1,152 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+export const PDF = 'application/pdf';
+export const PNG = 'image/png';
+export const JPEG = 'image/jpeg';
+export const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+export const XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const DEFAULT_ALLOWED_TYPES = [PDF, DOCX, XLSX, PNG];
+
+export class FileTypeError extends Error {
+  declaredType: string;
+  detectedType: string | null;
+
+  constructor(message: string, declaredType: string, detectedType: string | null) {
+    super(message);
+    this.name = 'FileTypeError';
+    this.declaredType = declaredType;
+    this.detectedType = detectedType;
+  }
+}
+
+export class FileTypeService {
+  private allowedTypes: string[];
+
+  constructor() {
+    this.allowedTypes = process.env.ALLOWED_DOCUMENT_TYPES
+      ? process.env.ALLOWED_DOCUMENT_TYPES.split(',').map((type) => type.trim()).filter(Boolean)
+      : DEFAULT_ALLOWED_TYPES;
+  }
+
+  /**
+   * Get the configured allowlist of document MIME types
+   * @returns Allowed MIME types
+   */
+  getAllowedTypes(): string[] {
+    return [...this.allowedTypes];
+  }
+
+  /**
+   * Check a declared MIME type against the allowlist
+   * @param mimetype MIME type of the file
+   * @returns true if allowed
+   */
+  isAllowed(mimetype: string): boolean {
+    return this.allowedTypes.includes(mimetype);
+  }
+
+  /**
+   * Detect a file's type from its content (magic bytes)
+   * @param buffer File contents
+   * @returns Detected MIME type, or null if unrecognized
+   */
+  detectType(buffer: Buffer): string | null {
+    // PDF readers accept the header anywhere in the first 1024 bytes
+    if (buffer.subarray(0, 1024).includes('%PDF-')) {
+      return PDF;
+    }
+
+    if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+      return PNG;
+    }
+
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+      return JPEG;
+    }
+
+    // Office Open XML documents are ZIP archives with a known layout
+    if (buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+      const entries = this.listZipEntries(buffer);
+      if (entries.includes('[Content_Types].xml')) {
+        if (entries.includes('word/document.xml')) return DOCX;
+        if (entries.includes('xl/workbook.xml')) return XLSX;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Verify a file's content matches its declared, allowed type
+   * @param buffer File contents
+   * @param declaredType Client-declared MIME type
+   * @returns The detected MIME type
+   * @throws FileTypeError if the type is not allowed or the content does not match
+   */
+  validate(buffer: Buffer, declaredType: string): string {
+    if (!this.isAllowed(declaredType)) {
+      throw new FileTypeError(
+        `File type ${declaredType} is not allowed`,
+        declaredType,
+        null
+      );
+    }
+
+    const detectedType = this.detectType(buffer);
+
+    if (detectedType !== declaredType) {
+      throw new FileTypeError(
+        'File content does not match the declared file type',
+        declaredType,
+        detectedType
+      );
+    }
+
+    return detectedType;
+  }
+
+  /**
+   * List entry names from a ZIP archive's central directory
+   * @param buffer ZIP archive contents
+   * @returns Entry names (empty if the archive is malformed)
+   */
+  private listZipEntries(buffer: Buffer): string[] {
+    // The end of central directory record sits in the last 65557 bytes
+    const searchStart = Math.max(0, buffer.length - 65557);
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= searchStart; i--) {
+      if (buffer.readUInt32LE(i) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      return [];
+    }
+
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    const names: string[] = [];
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+        break;
+      }
+
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+
+      names.push(buffer.toString('utf8', offset + 46, offset + 46 + nameLength));
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return names;
+  }
+}
+
+export default new FileTypeService();
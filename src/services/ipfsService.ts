@@ -1,31 +1,240 @@
-import { NFTStorage } from 'nft.storage';
+import Hash from 'ipfs-only-hash';
 import dotenv from 'dotenv';
 
 // Load environment variables before instantiating the service
 dotenv.config();
 
-export class IPFSService {
-  private client: NFTStorage;
+/**
+ * Compute the CIDv1 (raw leaves) that IPFS nodes assign to content added with --cid-version=1
+ * @param data Content bytes
+ * @returns CID string
+ */
+export const computeCID = (data: Buffer): Promise<string> => {
+  return Hash.of(data, { cidVersion: 1, rawLeaves: true });
+};
+
+/**
+ * Check that a string looks like a CIDv0 (base58btc) or base32 CIDv1
+ * @param cid Candidate CID
+ * @returns true if well-formed
+ */
+export const isValidCID = (cid: string): boolean => {
+  return /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cid) || /^b[a-z2-7]{50,}$/.test(cid);
+};
+
+/**
+ * Check that content hashes to a CID. Content is re-imported with the default
+ * chunking for the CID's version, which is how the pinning providers add it.
+ * @param cid Expected CID
+ * @param data Content bytes
+ * @returns true if the content matches
+ */
+export const verifyCID = async (cid: string, data: Buffer): Promise<boolean> => {
+  const options = cid.startsWith('Qm')
+    ? { cidVersion: 0 as const, rawLeaves: false }
+    : { cidVersion: 1 as const, rawLeaves: true };
+  return (await Hash.of(data, options)) === cid;
+};
+
+/**
+ * A service that pins content to IPFS
+ */
+export interface PinningProvider {
+  readonly name: string;
+  pin(data: Buffer, filename: string): Promise<string>;
+  fetch?(cid: string): Promise<Buffer | null>;
+}
+
+/**
+ * Pinning through the HTTP RPC API of a Kubo (go-ipfs) node
+ */
+export class KuboPinningProvider implements PinningProvider {
+  readonly name = 'kubo';
+  private apiUrl: string;
+  private authHeader?: string;
+  private timeoutMs: number;
+
+  constructor(apiUrl: string, authHeader?: string, timeoutMs: number = 60000) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+    this.authHeader = authHeader;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async pin(data: Buffer, filename: string): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([data]), filename);
+
+    const response = await fetch(`${this.apiUrl}/api/v0/add?cid-version=1&pin=true`, {
+      method: 'POST',
+      body: form,
+      headers: this.headers(),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Kubo add failed: ${response.status} ${await response.text()}`);
+    }
+
+    const result = (await response.json()) as { Hash: string };
+    return result.Hash;
+  }
+
+  async fetch(cid: string): Promise<Buffer | null> {
+    // offline: only return content the node already has instead of searching the network
+    const response = await fetch(
+      `${this.apiUrl}/api/v0/cat?arg=${encodeURIComponent(cid)}&offline=true`,
+      {
+        method: 'POST',
+        headers: this.headers(),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      }
+    );
+    if (!response.ok) {
+      return null;
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
 
-  constructor() {
-    const apiKey = process.env.NFT_STORAGE_API_KEY;
-    if (!apiKey) {
-      throw new Error('NFT_STORAGE_API_KEY is not set');
+  private headers(): Record<string, string> {
+    return this.authHeader ? { Authorization: this.authHeader } : {};
+  }
+}
+
+/**
+ * Pinning through a Pinata-compatible pinning API
+ */
+export class PinataPinningProvider implements PinningProvider {
+  readonly name = 'pinata';
+  private apiUrl: string;
+  private jwt: string;
+  private timeoutMs: number;
+
+  constructor(apiUrl: string, jwt: string, timeoutMs: number = 60000) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+    this.jwt = jwt;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async pin(data: Buffer, filename: string): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([data]), filename);
+    form.append('pinataMetadata', JSON.stringify({ name: filename }));
+    form.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+
+    const response = await fetch(`${this.apiUrl}/pinning/pinFileToIPFS`, {
+      method: 'POST',
+      body: form,
+      headers: { Authorization: `Bearer ${this.jwt}` },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Pinata pin failed: ${response.status} ${await response.text()}`);
     }
-    this.client = new NFTStorage({ token: apiKey });
+
+    const result = (await response.json()) as { IpfsHash: string };
+    return result.IpfsHash;
+  }
+}
+
+/**
+ * In-process content-addressed store, for tests and local development
+ */
+export class MemoryPinningProvider implements PinningProvider {
+  readonly name = 'memory';
+  private blocks: Map<string, Buffer> = new Map();
+
+  async pin(data: Buffer): Promise<string> {
+    const cid = await computeCID(data);
+    this.blocks.set(cid, Buffer.from(data));
+    return cid;
+  }
+
+  async fetch(cid: string): Promise<Buffer | null> {
+    return this.blocks.get(cid) || null;
+  }
+}
+
+/**
+ * Earlier document version listed in token metadata
+ */
+export interface MetadataVersion {
+  version: number;
+  encryptedCID: string;
+  contentHash?: string;
+  createdAt: string;
+}
+
+export class IPFSService {
+  private providers: PinningProvider[];
+  private pinQuorum: number;
+  private gatewayUrls: string[];
+  private gatewayTimeoutMs: number;
+
+  constructor(providers?: PinningProvider[]) {
+    this.providers = providers || IPFSService.createProviders();
+    this.pinQuorum = Math.min(
+      parseInt(process.env.IPFS_PIN_QUORUM || '1'),
+      this.providers.length
+    );
+    this.gatewayUrls = (process.env.IPFS_GATEWAY_URLS || 'https://ipfs.io,https://dweb.link,https://w3s.link')
+      .split(',')
+      .map((url) => url.trim().replace(/\/+$/, ''))
+      .filter(Boolean);
+    this.gatewayTimeoutMs = parseInt(process.env.IPFS_GATEWAY_TIMEOUT_MS || '15000');
   }
 
   /**
-   * Pin a file to IPFS via nft.storage
+   * Select pinning providers from IPFS_PINNING_PROVIDERS, a comma-separated
+   * list of "kubo", "pinata" and "memory"
+   */
+  private static createProviders(): PinningProvider[] {
+    const names = (process.env.IPFS_PINNING_PROVIDERS || 'kubo')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+    const timeoutMs = parseInt(process.env.IPFS_TIMEOUT_MS || '60000');
+
+    return names.map((name): PinningProvider => {
+      switch (name) {
+        case 'kubo':
+          return new KuboPinningProvider(
+            process.env.IPFS_API_URL || 'http://127.0.0.1:5001',
+            process.env.IPFS_API_AUTH,
+            timeoutMs
+          );
+        case 'pinata':
+          if (!process.env.PINATA_JWT) {
+            throw new Error('PINATA_JWT is not set');
+          }
+          return new PinataPinningProvider(
+            process.env.PINATA_API_URL || 'https://api.pinata.cloud',
+            process.env.PINATA_JWT,
+            timeoutMs
+          );
+        case 'memory':
+          return new MemoryPinningProvider();
+        default:
+          throw new Error(`Unknown IPFS pinning provider: ${name}`);
+      }
+    });
+  }
+
+  /**
+   * Get the names of the configured pinning providers
+   * @returns Provider names
+   */
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * Pin a file to IPFS
    * @param buffer File buffer
    * @param filename Original filename
    * @returns IPFS CID
    */
   async pinFile(buffer: Buffer, filename: string): Promise<string> {
     try {
-      // Create a Blob from the buffer
-      const blob = new Blob([buffer]);
-      const cid = await this.client.storeBlob(blob);
+      const cid = await this.pinToProviders(buffer, filename);
       console.log(`File pinned to IPFS with CID: ${cid}`);
       return cid;
     } catch (error) {
@@ -41,9 +250,7 @@ export class IPFSService {
    */
   async pinJSON(metadata: any): Promise<string> {
     try {
-      const jsonString = JSON.stringify(metadata);
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const cid = await this.client.storeBlob(blob);
+      const cid = await this.pinToProviders(Buffer.from(JSON.stringify(metadata)), 'metadata.json');
       console.log(`JSON pinned to IPFS with CID: ${cid}`);
       return cid;
     } catch (error) {
@@ -59,6 +266,10 @@ export class IPFSService {
    * @param documentName Document name
    * @param investorAddress Investor wallet address
    * @param accessConditions Lit Protocol access conditions
+   * @param image Preview image URI (a generic image is used if omitted)
+   * @param version Document version the metadata describes
+   * @param versions Earlier versions of the document, oldest first
+   * @param contentHash SHA-256 of the document plaintext (hex)
    * @returns Metadata object
    */
   generateMetadata(
@@ -66,12 +277,16 @@ export class IPFSService {
     encryptedCID: string,
     documentName: string,
     investorAddress: string,
-    accessConditions: any
+    accessConditions: any,
+    image?: string,
+    version: number = 1,
+    versions?: MetadataVersion[],
+    contentHash?: string
   ): any {
     return {
       name: `Confidential Document #${tokenId}`,
       description: `Encrypted document from ${investorAddress}`,
-      image: 'ipfs://QmDefaultDocumentImage', // Replace with actual default image CID
+      image: image || 'ipfs://QmDefaultDocumentImage', // Replace with actual default image CID
       attributes: [
         {
           trait_type: 'Document Type',
@@ -85,8 +300,14 @@ export class IPFSService {
           trait_type: 'Original Name',
           value: documentName,
         },
+        {
+          trait_type: 'Version',
+          value: version,
+        },
       ],
       encryptedCID,
+      ...(contentHash ? { contentHash: { algorithm: 'sha256', value: contentHash } } : {}),
+      ...(versions && versions.length > 0 ? { versions } : {}),
       encryptionScheme: 'AES-GCM-256',
       accessControl: {
         protocol: 'lit',
@@ -99,28 +320,53 @@ export class IPFSService {
   /**
    * Build IPFS gateway URL from CID
    * @param cid IPFS CID
+   * @param gatewayUrl Gateway to use (defaults to the first configured gateway)
    * @returns Gateway URL
    */
-  getGatewayUrl(cid: string): string {
-    return `https://nftstorage.link/ipfs/${cid}`;
+  getGatewayUrl(cid: string, gatewayUrl: string = this.gatewayUrls[0]): string {
+    return `${gatewayUrl}/ipfs/${cid}`;
   }
 
   /**
-   * Fetch data from IPFS by CID
+   * Fetch data from IPFS by CID. The pinning providers are asked first, then each
+   * gateway in turn; content that does not hash to the CID is rejected and the
+   * next source is tried.
    * @param cid IPFS CID
-   * @returns File buffer
+   * @returns File buffer, verified against the CID
    */
   async fetchFromIPFS(cid: string): Promise<Buffer> {
     try {
-      const url = this.getGatewayUrl(cid);
-      const response = await fetch(url);
+      if (!isValidCID(cid)) {
+        throw new Error(`Invalid CID: ${cid}`);
+      }
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch from IPFS: ${response.statusText}`);
+      const sources: { name: string; load: () => Promise<Buffer | null> }[] = [
+        ...this.providers
+          .filter((provider) => provider.fetch)
+          .map((provider) => ({ name: provider.name, load: () => provider.fetch!(cid) })),
+        ...this.gatewayUrls.map((gatewayUrl) => ({
+          name: gatewayUrl,
+          load: () => this.fetchFromGateway(cid, gatewayUrl),
+        })),
+      ];
+
+      for (const source of sources) {
+        try {
+          const data = await source.load();
+          if (!data) {
+            continue;
+          }
+
+          if (await verifyCID(cid, data)) {
+            return data;
+          }
+          console.warn(`Content from ${source.name} does not match CID ${cid}`);
+        } catch (error) {
+          console.warn(`Fetching ${cid} from ${source.name} failed:`, error);
+        }
       }
 
-      const arrayBuffer = await response.arrayBuffer();
-      return Buffer.from(arrayBuffer);
+      throw new Error(`No source returned content matching ${cid}`);
     } catch (error) {
       console.error('Error fetching from IPFS:', error);
       throw new Error('Failed to fetch data from IPFS');
@@ -128,33 +374,53 @@ export class IPFSService {
   }
 
   /**
-   * Retry mechanism for IPFS operations
-   * @param operation Async operation to retry
-   * @param maxRetries Maximum number of retries
-   * @param delay Delay between retries in ms
-   * @returns Result of the operation
+   * Fetch content from one gateway
+   * @param cid IPFS CID
+   * @param gatewayUrl Gateway base URL
+   * @returns Content bytes (unverified)
    */
-  async retryOperation<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 3,
-    delay: number = 2000
-  ): Promise<T> {
-    let lastError: Error | null = null;
-
-    for (let i = 0; i < maxRetries; i++) {
-      try {
-        return await operation();
-      } catch (error) {
-        lastError = error as Error;
-        console.log(`Retry attempt ${i + 1}/${maxRetries} failed:`, error);
-
-        if (i < maxRetries - 1) {
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
+  private async fetchFromGateway(cid: string, gatewayUrl: string): Promise<Buffer> {
+    const response = await fetch(this.getGatewayUrl(cid, gatewayUrl), {
+      signal: AbortSignal.timeout(this.gatewayTimeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gateway responded ${response.status} ${response.statusText}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Pin content to every configured provider
+   * @param data Content bytes
+   * @param filename Name recorded with the pin
+   * @returns CID, once at least IPFS_PIN_QUORUM providers have pinned it
+   */
+  private async pinToProviders(data: Buffer, filename: string): Promise<string> {
+    const results = await Promise.allSettled(
+      this.providers.map((provider) => provider.pin(data, filename))
+    );
+
+    const cids = new Set<string>();
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        cids.add(result.value);
+      } else {
+        console.error(`Pinning to ${this.providers[index].name} failed:`, result.reason);
       }
+    });
+
+    if (cids.size > 1) {
+      throw new Error(`Pinning providers returned different CIDs: ${[...cids].join(', ')}`);
+    }
+
+    const pinned = results.filter((result) => result.status === 'fulfilled').length;
+    if (pinned < this.pinQuorum) {
+      throw new Error(`Pinned to ${pinned} of ${this.pinQuorum} required providers`);
     }
 
-    throw lastError || new Error('Operation failed after retries');
+    return [...cids][0];
   }
 }
 
@@ -0,0 +1,257 @@
+import os from 'os';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Job, { IJob, JobStatus } from '../models/Job';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+export type JobHandler = (payload: any, job: IJob) => Promise<void>;
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * Durable job queue stored in MongoDB. Jobs are claimed atomically, so several
+ * workers (processes) can share one queue. Failed jobs are retried with
+ * exponential backoff and dead-lettered once out of attempts.
+ */
+export class JobQueueService {
+  private handlers: Map<string, JobHandler> = new Map();
+  private workerId: string;
+  private pollIntervalMs: number;
+  private baseRetryDelayMs: number;
+  private maxRetryDelayMs: number;
+  private lockTimeoutMs: number;
+  private defaultMaxAttempts: number;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+
+  constructor() {
+    this.workerId = `${os.hostname()}:${process.pid}`;
+    this.pollIntervalMs = parseInt(process.env.JOB_QUEUE_POLL_MS || '2000');
+    this.baseRetryDelayMs = parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '5000');
+    this.maxRetryDelayMs = parseInt(process.env.JOB_RETRY_MAX_DELAY_MS || '3600000'); // 1 hour
+    this.lockTimeoutMs = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '600000'); // 10 minutes
+    this.defaultMaxAttempts = parseInt(process.env.JOB_MAX_ATTEMPTS || '8');
+  }
+
+  /**
+   * Register the handler that runs jobs of a type
+   * @param type Job type
+   * @param handler Async handler; throwing schedules a retry
+   */
+  registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue
+   * @param type Job type
+   * @param payload JSON-serializable job data
+   * @param options Attempt limit and earliest run time
+   * @returns Stored job
+   */
+  async enqueue(type: string, payload: any, options: EnqueueOptions = {}): Promise<IJob> {
+    try {
+      return await Job.create({
+        type,
+        payload,
+        maxAttempts: options.maxAttempts || this.defaultMaxAttempts,
+        runAt: options.runAt || new Date(),
+      });
+    } catch (error) {
+      console.error('Error enqueuing job:', error);
+      throw new Error('Failed to enqueue job');
+    }
+  }
+
+  /**
+   * Start the worker loop
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.poll();
+    console.log(`Job worker ${this.workerId} started for: ${[...this.handlers.keys()].join(', ')}`);
+  }
+
+  /**
+   * Stop the worker loop, waiting for the job in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.draining;
+  }
+
+  /**
+   * Compute the delay before retrying a job
+   * @param attempts Attempts made so far
+   * @returns Delay in milliseconds
+   */
+  getRetryDelay(attempts: number): number {
+    return Math.min(this.baseRetryDelayMs * 2 ** Math.max(0, attempts - 1), this.maxRetryDelayMs);
+  }
+
+  /**
+   * List jobs, most recently updated first
+   * @param statuses Statuses to include (all if empty)
+   * @param type Optional job type
+   * @param limit Maximum number of jobs
+   * @returns Jobs
+   */
+  async listJobs(statuses: JobStatus[], type?: string, limit: number = 100): Promise<IJob[]> {
+    const query: any = {};
+    if (statuses.length > 0) {
+      query.status = { $in: statuses };
+    }
+    if (type) {
+      query.type = type;
+    }
+
+    return Job.find(query).sort({ updatedAt: -1 }).limit(limit);
+  }
+
+  /**
+   * Count jobs by status
+   * @returns Number of jobs in each status
+   */
+  async getCounts(): Promise<Record<JobStatus, number>> {
+    const counts: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, dead: 0 };
+    const groups = await Job.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]);
+    for (const group of groups) {
+      counts[group._id as JobStatus] = group.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Re-drive a dead or pending job: run it as soon as possible with a fresh set of attempts
+   * @param id Job ID
+   * @returns Updated job, or null if not found or not retryable
+   */
+  async retryJob(id: string): Promise<IJob | null> {
+    if (!mongoose.isValidObjectId(id)) {
+      return null;
+    }
+
+    return Job.findOneAndUpdate(
+      { _id: id, status: { $in: ['dead', 'pending'] } },
+      { $set: { status: 'pending', attempts: 0, runAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Run due jobs unless a previous poll is still draining the queue
+   */
+  private poll(): void {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = this.drain()
+      .catch((error) => console.error('Error processing job queue:', error))
+      .finally(() => {
+        this.draining = null;
+      });
+  }
+
+  /**
+   * Claim and run jobs until none are due or the worker is stopped
+   */
+  private async drain(): Promise<void> {
+    await this.releaseExpiredLocks();
+
+    while (this.timer) {
+      const job = await this.claimNext();
+      if (!job) {
+        return;
+      }
+      await this.runJob(job);
+    }
+  }
+
+  /**
+   * Atomically claim the oldest due job this worker can handle
+   * @returns Claimed job, or null if none are due
+   */
+  private async claimNext(): Promise<IJob | null> {
+    return Job.findOneAndUpdate(
+      {
+        status: 'pending',
+        runAt: { $lte: new Date() },
+        type: { $in: [...this.handlers.keys()] },
+      },
+      {
+        $set: { status: 'running', lockedAt: new Date(), lockedBy: this.workerId },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Run a claimed job and record its outcome
+   * @param job Claimed job
+   */
+  private async runJob(job: IJob): Promise<void> {
+    const handler = this.handlers.get(job.type)!;
+    const owned = { _id: job._id, status: 'running', lockedBy: this.workerId };
+
+    try {
+      await handler(job.payload, job);
+
+      await Job.updateOne(owned, {
+        $set: { status: 'completed', completedAt: new Date() },
+        $unset: { lockedAt: '', lockedBy: '' },
+      });
+    } catch (error: any) {
+      const lastError = error?.message || String(error);
+
+      if (job.attempts >= job.maxAttempts) {
+        console.error(`Job ${job._id} (${job.type}) failed permanently:`, error);
+        await Job.updateOne(owned, {
+          $set: { status: 'dead', lastError },
+          $unset: { lockedAt: '', lockedBy: '' },
+        });
+        return;
+      }
+
+      const delay = this.getRetryDelay(job.attempts);
+      console.warn(`Job ${job._id} (${job.type}) attempt ${job.attempts} failed, retrying in ${delay}ms:`, lastError);
+      await Job.updateOne(owned, {
+        $set: { status: 'pending', lastError, runAt: new Date(Date.now() + delay) },
+        $unset: { lockedAt: '', lockedBy: '' },
+      });
+    }
+  }
+
+  /**
+   * Return jobs whose worker died mid-run to the queue (or dead-letter them if out of attempts)
+   */
+  private async releaseExpiredLocks(): Promise<void> {
+    await Job.updateMany(
+      { status: 'running', lockedAt: { $lt: new Date(Date.now() - this.lockTimeoutMs) } },
+      [
+        {
+          $set: {
+            status: { $cond: [{ $gte: ['$attempts', '$maxAttempts'] }, 'dead', 'pending'] },
+            lastError: 'Worker lock expired',
+          },
+        },
+        { $unset: ['lockedAt', 'lockedBy'] },
+      ]
+    );
+  }
+}
+
+export default new JobQueueService();
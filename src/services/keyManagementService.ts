@@ -0,0 +1,371 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import DocumentKey, { IDocumentKey } from '../models/DocumentKey';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+/**
+ * A key management backend that holds master keys and wraps data keys with them
+ */
+export interface KmsProvider {
+  readonly name: string;
+  getActiveKeyId(): Promise<string>;
+  wrapKey(dataKey: Buffer, keyId: string): Promise<string>;
+  unwrapKey(wrappedKey: string, keyId: string): Promise<Buffer>;
+  /** Create and activate a new master key version, if the backend can */
+  createKeyVersion?(): Promise<string>;
+}
+
+export interface LitEncryptedKey {
+  ciphertext: string;
+  dataToEncryptHash: string;
+}
+
+export interface RotationResult {
+  activeKeyId: string;
+  rewrapped: number;
+  failed: string[];
+}
+
+/**
+ * Wrap a data key with AES-GCM-256 (base64 of IV, auth tag and ciphertext)
+ */
+const wrapWithMasterKey = (masterKey: Buffer, dataKey: Buffer): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', masterKey, iv);
+  const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), wrapped]).toString('base64');
+};
+
+/**
+ * Unwrap a data key produced by wrapWithMasterKey
+ */
+const unwrapWithMasterKey = (masterKey: Buffer, wrappedKey: string): Buffer => {
+  const raw = Buffer.from(wrappedKey, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey, raw.subarray(0, 12));
+  decipher.setAuthTag(raw.subarray(12, 28));
+  return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+};
+
+const parseMasterKey = (keyId: string, keyHex: string): Buffer => {
+  if (!/^[0-9a-fA-F]{64}$/.test(keyHex)) {
+    throw new Error(`Master key "${keyId}" must be a 64-character hex string`);
+  }
+  return Buffer.from(keyHex, 'hex');
+};
+
+/**
+ * Master keys supplied through environment variables.
+ *
+ * KMS_MASTER_KEYS holds a comma-separated keyring ("v1:<hex>,v2:<hex>") and
+ * KMS_ACTIVE_KEY_ID selects the key new data keys are wrapped with. Rotation
+ * means adding a key to the keyring, activating it and re-wrapping.
+ */
+export class EnvKmsProvider implements KmsProvider {
+  readonly name = 'env';
+  private keys: Map<string, Buffer>;
+  private activeKeyId: string;
+
+  constructor(keys: Record<string, string>, activeKeyId?: string) {
+    this.keys = new Map(
+      Object.entries(keys).map(([keyId, keyHex]) => [keyId, parseMasterKey(keyId, keyHex)])
+    );
+
+    const keyIds = [...this.keys.keys()];
+    this.activeKeyId = activeKeyId || keyIds[keyIds.length - 1];
+  }
+
+  /**
+   * Build the provider from KMS_MASTER_KEYS / KMS_ACTIVE_KEY_ID
+   * (falls back to DOCUMENT_MASTER_KEY as key "default")
+   */
+  static fromEnv(): EnvKmsProvider {
+    const keys: Record<string, string> = {};
+
+    if (process.env.KMS_MASTER_KEYS) {
+      for (const entry of process.env.KMS_MASTER_KEYS.split(',')) {
+        const [keyId, keyHex] = entry.trim().split(':');
+        if (keyId && keyHex) {
+          keys[keyId] = keyHex;
+        }
+      }
+    } else if (process.env.DOCUMENT_MASTER_KEY) {
+      keys.default = process.env.DOCUMENT_MASTER_KEY;
+    }
+
+    return new EnvKmsProvider(keys, process.env.KMS_ACTIVE_KEY_ID);
+  }
+
+  async getActiveKeyId(): Promise<string> {
+    if (!this.activeKeyId || !this.keys.has(this.activeKeyId)) {
+      throw new Error('No active master key configured (set KMS_MASTER_KEYS)');
+    }
+    return this.activeKeyId;
+  }
+
+  async wrapKey(dataKey: Buffer, keyId: string): Promise<string> {
+    return wrapWithMasterKey(this.getKey(keyId), dataKey);
+  }
+
+  async unwrapKey(wrappedKey: string, keyId: string): Promise<Buffer> {
+    return unwrapWithMasterKey(this.getKey(keyId), wrappedKey);
+  }
+
+  private getKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Master key "${keyId}" is not in the keyring`);
+    }
+    return key;
+  }
+}
+
+interface LocalKeyring {
+  activeKeyId: string;
+  keys: Record<string, { key: string; createdAt: string }>;
+}
+
+/**
+ * File-based stand-in for a hosted KMS. Master keys live in a JSON keyring
+ * on local disk (KMS_KEYRING_PATH) and new versions can be generated in place.
+ */
+export class LocalFileKmsProvider implements KmsProvider {
+  readonly name = 'local-file';
+  private keyringPath: string;
+
+  constructor(keyringPath: string) {
+    this.keyringPath = keyringPath;
+  }
+
+  async getActiveKeyId(): Promise<string> {
+    return this.loadKeyring().activeKeyId;
+  }
+
+  async wrapKey(dataKey: Buffer, keyId: string): Promise<string> {
+    return wrapWithMasterKey(this.getKey(keyId), dataKey);
+  }
+
+  async unwrapKey(wrappedKey: string, keyId: string): Promise<Buffer> {
+    return unwrapWithMasterKey(this.getKey(keyId), wrappedKey);
+  }
+
+  async createKeyVersion(): Promise<string> {
+    const keyring = this.loadKeyring();
+    const keyId = `v${Object.keys(keyring.keys).length + 1}`;
+
+    keyring.keys[keyId] = {
+      key: crypto.randomBytes(32).toString('hex'),
+      createdAt: new Date().toISOString(),
+    };
+    keyring.activeKeyId = keyId;
+    this.saveKeyring(keyring);
+
+    return keyId;
+  }
+
+  private getKey(keyId: string): Buffer {
+    const entry = this.loadKeyring().keys[keyId];
+    if (!entry) {
+      throw new Error(`Master key "${keyId}" is not in the keyring`);
+    }
+    return parseMasterKey(keyId, entry.key);
+  }
+
+  private loadKeyring(): LocalKeyring {
+    if (!fs.existsSync(this.keyringPath)) {
+      // First use: create a keyring with a single master key
+      const keyring: LocalKeyring = {
+        activeKeyId: 'v1',
+        keys: {
+          v1: {
+            key: crypto.randomBytes(32).toString('hex'),
+            createdAt: new Date().toISOString(),
+          },
+        },
+      };
+      this.saveKeyring(keyring);
+      return keyring;
+    }
+
+    return JSON.parse(fs.readFileSync(this.keyringPath, 'utf-8'));
+  }
+
+  private saveKeyring(keyring: LocalKeyring): void {
+    fs.mkdirSync(path.dirname(this.keyringPath), { recursive: true });
+    fs.writeFileSync(this.keyringPath, JSON.stringify(keyring, null, 2), { mode: 0o600 });
+  }
+}
+
+export class KeyManagementService {
+  private provider: KmsProvider;
+
+  constructor(provider?: KmsProvider) {
+    this.provider = provider || KeyManagementService.createProvider();
+  }
+
+  /**
+   * Select the KMS backend from KMS_PROVIDER ("env" or "local-file")
+   */
+  private static createProvider(): KmsProvider {
+    const providerName = process.env.KMS_PROVIDER || 'env';
+
+    switch (providerName) {
+      case 'env':
+        return EnvKmsProvider.fromEnv();
+      case 'local-file':
+        return new LocalFileKmsProvider(
+          process.env.KMS_KEYRING_PATH || path.join(__dirname, '../../kms/keyring.json')
+        );
+      default:
+        throw new Error(`Unknown KMS_PROVIDER: ${providerName}`);
+    }
+  }
+
+  /**
+   * Build the query matching a document version's key record
+   * (keys stored before versioning have no version and belong to version 1)
+   * @param tokenId Token ID the key belongs to
+   * @param version Document version
+   */
+  private static keyQuery(tokenId: string, version: number): Record<string, any> {
+    return version === 1 ? { tokenId, version: { $in: [1, null] } } : { tokenId, version };
+  }
+
+  /**
+   * Wrap a per-document data key with the active master key and store it
+   * @param tokenId Token ID the key belongs to
+   * @param keyHex Data key in hex format
+   * @param litEncryptedKey Same data key encrypted with Lit Protocol, for client-side decryption
+   * @param version Document version the key encrypts
+   */
+  async storeDataKey(
+    tokenId: string,
+    keyHex: string,
+    litEncryptedKey?: LitEncryptedKey,
+    version: number = 1
+  ): Promise<void> {
+    try {
+      const masterKeyId = await this.provider.getActiveKeyId();
+      const wrappedKey = await this.provider.wrapKey(Buffer.from(keyHex, 'hex'), masterKeyId);
+
+      await DocumentKey.findOneAndUpdate(
+        KeyManagementService.keyQuery(tokenId, version),
+        {
+          tokenId,
+          version,
+          wrappedKey,
+          masterKeyId,
+          kmsProvider: this.provider.name,
+          algorithm: 'AES-GCM-256',
+          litCiphertext: litEncryptedKey?.ciphertext,
+          litDataToEncryptHash: litEncryptedKey?.dataToEncryptHash,
+        },
+        { upsert: true, new: true }
+      );
+    } catch (error) {
+      console.error('Error storing document key:', error);
+      throw new Error('Failed to store document key');
+    }
+  }
+
+  /**
+   * Find the stored key record for a document version
+   * @param tokenId Token ID the key belongs to
+   * @param version Document version
+   * @returns Key record, or null if none is stored
+   */
+  async findDocumentKey(tokenId: string, version: number = 1): Promise<IDocumentKey | null> {
+    return DocumentKey.findOne(KeyManagementService.keyQuery(tokenId, version));
+  }
+
+  /**
+   * Load and unwrap the data key for a document
+   * @param tokenId Token ID the key belongs to
+   * @param version Document version
+   * @returns Data key in hex format
+   */
+  async getDataKey(tokenId: string, version: number = 1): Promise<string> {
+    const documentKey = await this.findDocumentKey(tokenId, version);
+    if (!documentKey) {
+      throw new Error('Document key not found');
+    }
+
+    try {
+      const dataKey = await this.provider.unwrapKey(
+        documentKey.wrappedKey,
+        documentKey.masterKeyId
+      );
+      return dataKey.toString('hex');
+    } catch (error) {
+      console.error('Error unwrapping document key:', error);
+      throw new Error('Failed to unwrap document key');
+    }
+  }
+
+  /**
+   * Rotate the master key and re-wrap every data key with it.
+   * Documents themselves are not re-encrypted.
+   * @returns Active key ID and re-wrap counts
+   */
+  async rotateMasterKey(): Promise<RotationResult> {
+    const activeKeyId = this.provider.createKeyVersion
+      ? await this.provider.createKeyVersion()
+      : await this.provider.getActiveKeyId();
+
+    console.log(`🔑 Re-wrapping document keys with master key ${activeKeyId}...`);
+
+    let rewrapped = 0;
+    const failed: string[] = [];
+
+    const cursor = DocumentKey.find({ masterKeyId: { $ne: activeKeyId } }).cursor();
+
+    for await (const documentKey of cursor) {
+      try {
+        const dataKey = await this.provider.unwrapKey(
+          documentKey.wrappedKey,
+          documentKey.masterKeyId
+        );
+
+        documentKey.wrappedKey = await this.provider.wrapKey(dataKey, activeKeyId);
+        documentKey.masterKeyId = activeKeyId;
+        documentKey.kmsProvider = this.provider.name;
+        documentKey.rotatedAt = new Date();
+        await documentKey.save();
+
+        rewrapped++;
+      } catch (error) {
+        console.error(`Failed to re-wrap key for token ${documentKey.tokenId}:`, error);
+        failed.push(documentKey.tokenId);
+      }
+    }
+
+    console.log(`✅ Re-wrapped ${rewrapped} document keys (${failed.length} failed)`);
+
+    return { activeKeyId, rewrapped, failed };
+  }
+
+  /**
+   * Summarize which master key versions currently wrap data keys
+   * @returns Active key ID and key counts per master key
+   */
+  async getStatus(): Promise<{
+    provider: string;
+    activeKeyId: string;
+    keysByMasterKey: Record<string, number>;
+  }> {
+    const counts = await DocumentKey.aggregate([
+      { $group: { _id: '$masterKeyId', count: { $sum: 1 } } },
+    ]);
+
+    return {
+      provider: this.provider.name,
+      activeKeyId: await this.provider.getActiveKeyId(),
+      keysByMasterKey: Object.fromEntries(counts.map((c) => [c._id, c.count])),
+    };
+  }
+}
+
+export default new KeyManagementService();
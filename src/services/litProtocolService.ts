@@ -1,16 +1,236 @@
 import { LitNodeClient } from '@lit-protocol/lit-node-client';
-import * as LitJsSdk from '@lit-protocol/lit-node-client';
+import { ethers } from 'ethers';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 
 // Load environment variables before instantiating the service
 dotenv.config();
 
+export interface LitEncryptParams {
+  dataToEncrypt: Uint8Array;
+  unifiedAccessControlConditions: any[];
+}
+
+export interface LitDecryptParams {
+  ciphertext: string;
+  dataToEncryptHash: string;
+  unifiedAccessControlConditions: any[];
+  chain: string;
+  authSig: any;
+}
+
+/**
+ * Minimal surface of a Lit node network used by this backend
+ */
+export interface LitClient {
+  connect(): Promise<void>;
+  encrypt(params: LitEncryptParams): Promise<{ ciphertext: string; dataToEncryptHash: string }>;
+  decrypt(params: LitDecryptParams): Promise<Uint8Array>;
+  disconnect(): Promise<void>;
+}
+
+/**
+ * LitClient backed by the real Lit node network
+ */
+export class LitNetworkClient implements LitClient {
+  private litNodeClient: LitNodeClient;
+
+  constructor(litNetwork: string) {
+    this.litNodeClient = new LitNodeClient({
+      litNetwork: litNetwork as any,
+      debug: process.env.NODE_ENV === 'development',
+    });
+  }
+
+  async connect(): Promise<void> {
+    await this.litNodeClient.connect();
+  }
+
+  async encrypt(params: LitEncryptParams): Promise<{ ciphertext: string; dataToEncryptHash: string }> {
+    return this.litNodeClient.encrypt({
+      dataToEncrypt: params.dataToEncrypt,
+      unifiedAccessControlConditions: params.unifiedAccessControlConditions,
+    });
+  }
+
+  async decrypt(params: LitDecryptParams): Promise<Uint8Array> {
+    const { decryptedData } = await this.litNodeClient.decrypt({
+      ciphertext: params.ciphertext,
+      dataToEncryptHash: params.dataToEncryptHash,
+      unifiedAccessControlConditions: params.unifiedAccessControlConditions,
+      chain: params.chain,
+      authSig: params.authSig,
+    });
+    return decryptedData;
+  }
+
+  async disconnect(): Promise<void> {
+    await this.litNodeClient.disconnect();
+  }
+}
+
+/**
+ * Local stand-in for a Lit node network, used for tests and offline development.
+ * Encrypts with an AES-GCM key derived from a configured secret and enforces the
+ * unified access conditions itself (wallet match and ERC-721 ownerOf). The same
+ * secret is needed to decrypt, so it must not change between restarts.
+ */
+export class MockLitNode implements LitClient {
+  private nodeKey: Buffer;
+  private resolveOwner: (contractAddress: string, tokenId: string) => Promise<string>;
+
+  constructor(
+    secret: string,
+    resolveOwner?: (contractAddress: string, tokenId: string) => Promise<string>
+  ) {
+    if (!secret) {
+      throw new Error('MockLitNode requires a secret');
+    }
+
+    this.nodeKey = crypto.createHash('sha256').update(secret).digest();
+    this.resolveOwner = resolveOwner || MockLitNode.ownerFromRpc;
+  }
+
+  private static async ownerFromRpc(contractAddress: string, tokenId: string): Promise<string> {
+    const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+    const contract = new ethers.Contract(
+      contractAddress,
+      ['function ownerOf(uint256 tokenId) view returns (address)'],
+      provider
+    );
+    return contract.ownerOf(tokenId);
+  }
+
+  async connect(): Promise<void> {}
+
+  async encrypt(params: LitEncryptParams): Promise<{ ciphertext: string; dataToEncryptHash: string }> {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.nodeKey, iv);
+
+    // Bind the ciphertext to its access conditions, like the real network does
+    cipher.setAAD(Buffer.from(JSON.stringify(params.unifiedAccessControlConditions)));
+
+    const encrypted = Buffer.concat([cipher.update(params.dataToEncrypt), cipher.final()]);
+
+    return {
+      ciphertext: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64'),
+      dataToEncryptHash: crypto.createHash('sha256').update(params.dataToEncrypt).digest('hex'),
+    };
+  }
+
+  async decrypt(params: LitDecryptParams): Promise<Uint8Array> {
+    const userAddress = this.verifyAuthSig(params.authSig);
+
+    const allowed = await this.evaluateConditions(params.unifiedAccessControlConditions, userAddress);
+    if (!allowed) {
+      throw new Error('Access control conditions not satisfied');
+    }
+
+    const raw = Buffer.from(params.ciphertext, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.nodeKey, raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    decipher.setAAD(Buffer.from(JSON.stringify(params.unifiedAccessControlConditions)));
+
+    const decrypted = Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+
+    const hash = crypto.createHash('sha256').update(decrypted).digest('hex');
+    if (hash !== params.dataToEncryptHash) {
+      throw new Error('Decrypted data does not match dataToEncryptHash');
+    }
+
+    return new Uint8Array(decrypted);
+  }
+
+  async disconnect(): Promise<void> {}
+
+  /**
+   * Recover the signer of an authSig and check it matches the claimed address
+   */
+  private verifyAuthSig(authSig: any): string {
+    if (!authSig?.sig || !authSig?.signedMessage || !authSig?.address) {
+      throw new Error('Invalid authSig');
+    }
+
+    const recovered = ethers.verifyMessage(authSig.signedMessage, authSig.sig);
+    if (recovered.toLowerCase() !== authSig.address.toLowerCase()) {
+      throw new Error('authSig signature does not match address');
+    }
+
+    return recovered.toLowerCase();
+  }
+
+  /**
+   * Evaluate a flat list of unified conditions joined by and/or operators
+   */
+  private async evaluateConditions(conditions: any[], userAddress: string): Promise<boolean> {
+    let result: boolean | null = null;
+    let pendingOperator: 'and' | 'or' | null = null;
+
+    for (const condition of conditions) {
+      if (condition.operator) {
+        pendingOperator = condition.operator;
+        continue;
+      }
+
+      const value = await this.evaluateCondition(condition, userAddress);
+
+      if (result === null) {
+        result = value;
+      } else if (pendingOperator === 'or') {
+        result = result || value;
+      } else {
+        result = result && value;
+      }
+      pendingOperator = null;
+    }
+
+    return result === true;
+  }
+
+  private async evaluateCondition(condition: any, userAddress: string): Promise<boolean> {
+    const expected = String(condition.returnValueTest?.value || '').toLowerCase();
+
+    if (condition.standardContractType === 'ERC721' && condition.method === 'ownerOf') {
+      try {
+        const owner = await this.resolveOwner(condition.contractAddress, condition.parameters[0]);
+        const actual = owner.toLowerCase();
+        return (expected === ':useraddress' ? userAddress : expected) === actual;
+      } catch (error) {
+        // Unminted or burned tokens have no owner
+        return false;
+      }
+    }
+
+    if (condition.parameters?.[0] === ':userAddress' && condition.method === '') {
+      return condition.returnValueTest?.comparator === '=' && userAddress === expected;
+    }
+
+    console.warn('MockLitNode: unsupported access condition', condition);
+    return false;
+  }
+}
+
+/**
+ * Wraps document data keys with Lit Protocol.
+ *
+ * LIT_MODE selects the client:
+ * - "network" (default) connects to the Lit node network named by LIT_NETWORK.
+ *   Uploads and new versions wrap their data key through it, so they fail while
+ *   the network is unreachable.
+ * - "mock" uses the local MockLitNode and requires LIT_MOCK_SECRET, which must
+ *   stay the same for existing ciphertexts to remain decryptable.
+ */
 export class LitProtocolService {
-  private litNodeClient: LitNodeClient | null = null;
+  private litClient: LitClient | null = null;
+  private litNetwork: string;
   private chain: string;
+  private mode: string;
 
   constructor() {
-    this.chain = process.env.LIT_NETWORK || 'cayenne';
+    this.litNetwork = process.env.LIT_NETWORK || 'datil-dev';
+    this.chain = process.env.LIT_CHAIN || 'sepolia';
+    // "network" talks to the Lit node network, "mock" uses the local MockLitNode
+    this.mode = process.env.LIT_MODE || 'network';
   }
 
   /**
@@ -18,27 +238,51 @@ export class LitProtocolService {
    */
   async initialize(): Promise<void> {
     try {
-      if (this.litNodeClient) {
+      if (this.litClient) {
         return; // Already initialized
       }
 
-      this.litNodeClient = new LitNodeClient({
-        litNetwork: this.chain as any,
-        debug: process.env.NODE_ENV === 'development',
-      });
+      let client: LitClient;
+      if (this.mode === 'mock') {
+        if (!process.env.LIT_MOCK_SECRET) {
+          throw new Error('LIT_MOCK_SECRET is required when LIT_MODE=mock');
+        }
+        client = new MockLitNode(process.env.LIT_MOCK_SECRET);
+      } else if (this.mode === 'network') {
+        client = new LitNetworkClient(this.litNetwork);
+      } else {
+        throw new Error(`Unknown LIT_MODE: ${this.mode}`);
+      }
 
-      await this.litNodeClient.connect();
-      console.log('✅ Lit Protocol client connected');
+      await client.connect();
+      this.litClient = client;
+      console.log(`✅ Lit Protocol client connected (${this.mode})`);
     } catch (error) {
       console.error('Error initializing Lit Protocol:', error);
       throw new Error('Failed to initialize Lit Protocol');
     }
   }
 
+  /**
+   * Use a specific Lit client (e.g. a MockLitNode in tests)
+   * @param client Lit client implementation
+   */
+  setClient(client: LitClient): void {
+    this.litClient = client;
+  }
+
+  /**
+   * Get the chain name used in access conditions
+   * @returns Lit chain name
+   */
+  getChain(): string {
+    return this.chain;
+  }
+
   /**
    * Encrypt data with Lit Protocol
    * @param data Data to encrypt (string or Uint8Array)
-   * @param accessControlConditions Access control conditions
+   * @param accessControlConditions Unified access control conditions
    * @returns Encrypted data and metadata
    */
   async encryptWithLit(
@@ -49,18 +293,18 @@ export class LitProtocolService {
     dataToEncryptHash: string;
   }> {
     try {
-      if (!this.litNodeClient) {
+      if (!this.litClient) {
         await this.initialize();
       }
 
-      // For now, return a placeholder since Lit Protocol integration is complex
-      // In production, implement proper Lit Protocol encryption
-      console.warn('Lit Protocol encryption not fully implemented - using placeholder');
-      
-      return {
-        ciphertext: Buffer.from(typeof data === 'string' ? data : data).toString('base64'),
-        dataToEncryptHash: 'placeholder-hash',
-      };
+      const dataToEncrypt = typeof data === 'string'
+        ? new TextEncoder().encode(data)
+        : data;
+
+      return await this.litClient!.encrypt({
+        dataToEncrypt,
+        unifiedAccessControlConditions: accessControlConditions,
+      });
     } catch (error) {
       console.error('Error encrypting with Lit:', error);
       throw new Error('Failed to encrypt with Lit Protocol');
@@ -71,7 +315,7 @@ export class LitProtocolService {
    * Decrypt data with Lit Protocol
    * @param ciphertext Encrypted data
    * @param dataToEncryptHash Hash of original data
-   * @param accessControlConditions Access control conditions
+   * @param accessControlConditions Unified access control conditions
    * @param authSig Authentication signature from wallet
    * @returns Decrypted data
    */
@@ -82,15 +326,19 @@ export class LitProtocolService {
     authSig: any
   ): Promise<string> {
     try {
-      if (!this.litNodeClient) {
+      if (!this.litClient) {
         await this.initialize();
       }
 
-      // For now, return a placeholder since Lit Protocol integration is complex
-      // In production, implement proper Lit Protocol decryption
-      console.warn('Lit Protocol decryption not fully implemented - using placeholder');
-      
-      return Buffer.from(ciphertext, 'base64').toString();
+      const decrypted = await this.litClient!.decrypt({
+        ciphertext,
+        dataToEncryptHash,
+        unifiedAccessControlConditions: accessControlConditions,
+        chain: this.chain,
+        authSig,
+      });
+
+      return new TextDecoder().decode(decrypted);
     } catch (error) {
       console.error('Error decrypting with Lit:', error);
       throw new Error('Failed to decrypt with Lit Protocol');
@@ -179,6 +427,7 @@ export class LitProtocolService {
       },
       { operator: 'or' },
       {
+        conditionType: 'evmBasic',
         contractAddress,
         standardContractType: 'ERC721',
         chain,
@@ -212,9 +461,9 @@ export class LitProtocolService {
    * Disconnect Lit client
    */
   async disconnect(): Promise<void> {
-    if (this.litNodeClient) {
-      await this.litNodeClient.disconnect();
-      this.litNodeClient = null;
+    if (this.litClient) {
+      await this.litClient.disconnect();
+      this.litClient = null;
       console.log('Lit Protocol client disconnected');
     }
   }
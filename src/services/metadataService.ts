@@ -0,0 +1,75 @@
+import documentStorageService from './documentStorageService';
+import ipfsService, { computeCID, MetadataVersion } from './ipfsService';
+import jobQueueService from './jobQueueService';
+import { PIN_METADATA_JOB } from './pinningJobs';
+
+export interface TokenMetadataParams {
+  tokenId: string;
+  encryptedCID: string;
+  documentName: string;
+  investorAddress: string;
+  accessConditions: any;
+  image?: string;
+  version?: number;
+  versions?: MetadataVersion[];
+  contentHash?: string;
+}
+
+export interface PublishedMetadata {
+  metadataCID: string;
+  tokenURI: string;
+}
+
+export class MetadataService {
+  /**
+   * Build a token's ERC-721 metadata JSON, store it and compute its CID
+   * @param params Token and document details
+   * @param pin Whether to queue the metadata for pinning to IPFS
+   * @returns Metadata CID and the ipfs:// token URI
+   */
+  async publishMetadata(params: TokenMetadataParams, pin: boolean): Promise<PublishedMetadata> {
+    try {
+      const metadata = ipfsService.generateMetadata(
+        params.tokenId,
+        params.encryptedCID,
+        params.documentName,
+        params.investorAddress,
+        params.accessConditions,
+        params.image,
+        params.version,
+        params.versions,
+        params.contentHash
+      );
+
+      // Keep the exact bytes the CID is computed from; they are served and pinned as-is
+      const data = Buffer.from(JSON.stringify(metadata));
+      const metadataCID = await computeCID(data);
+
+      await documentStorageService.putDocument(
+        documentStorageService.getMetadataKey(params.tokenId),
+        data,
+        'application/json'
+      );
+
+      if (pin) {
+        await jobQueueService.enqueue(PIN_METADATA_JOB, { tokenId: params.tokenId });
+      }
+
+      return { metadataCID, tokenURI: `ipfs://${metadataCID}` };
+    } catch (error) {
+      console.error('Error publishing token metadata:', error);
+      throw new Error('Failed to publish token metadata');
+    }
+  }
+
+  /**
+   * Read a token's stored metadata JSON
+   * @param tokenId Token ID
+   * @returns Metadata bytes
+   */
+  async getMetadata(tokenId: string): Promise<Buffer> {
+    return documentStorageService.readDocument(documentStorageService.getMetadataKey(tokenId));
+  }
+}
+
+export default new MetadataService();
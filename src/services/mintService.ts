@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import blockchainService from './blockchainService';
+import transactionManagerService from './transactionManagerService';
+import NFT from '../models/NFT';
+import { IChainTransaction } from '../models/ChainTransaction';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+/**
+ * Thrown when another request has claimed the NFT and is still queuing its mint
+ */
+export class MintInProgressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MintInProgressError';
+  }
+}
+
+export interface MintRequest {
+  transaction: IChainTransaction;
+  queued: boolean; // false if a mint was already in flight and is returned instead
+}
+
+export class MintService {
+  private claimTimeoutMs: number;
+
+  constructor() {
+    this.claimTimeoutMs = parseInt(process.env.MINT_CLAIM_TIMEOUT_MS || '60000');
+  }
+
+  /**
+   * Queue a token's mint unless one is already in flight. The NFT is claimed for
+   * the mint atomically first, so concurrent requests cannot both queue one.
+   * @param tokenId Token ID
+   * @param context Caller data recorded with the transaction
+   * @returns The queued or in-flight mint, or null if the NFT is not mintable
+   * @throws MintInProgressError if another request is queuing the NFT's mint right now
+   */
+  async requestMint(tokenId: string, context: any): Promise<MintRequest | null> {
+    const operationId = crypto.randomUUID();
+    let nft = await NFT.findOneAndUpdate(
+      { tokenId, status: 'uploaded', mintOperationId: { $exists: false } },
+      { $set: { mintOperationId: operationId, mintClaimedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!nft) {
+      const claimed = await NFT.findOne({ tokenId, status: 'uploaded' });
+      if (!claimed || !claimed.mintOperationId) {
+        return null;
+      }
+
+      const existing = await transactionManagerService.getOperation(claimed.mintOperationId);
+      if (existing) {
+        return { transaction: existing, queued: false };
+      }
+
+      // The claim's mint was never queued: still being queued, or its request stopped first
+      if (Date.now() - claimed.mintClaimedAt!.getTime() < this.claimTimeoutMs) {
+        throw new MintInProgressError('A mint is already in progress for this NFT');
+      }
+      nft = await NFT.findOneAndUpdate(
+        { tokenId, status: 'uploaded', mintOperationId: claimed.mintOperationId },
+        { $set: { mintOperationId: operationId, mintClaimedAt: new Date() } },
+        { new: true }
+      );
+      if (!nft) {
+        return this.requestMint(tokenId, context);
+      }
+    }
+
+    try {
+      await blockchainService.mintDirect(
+        nft.recipientAddress,
+        nft.tokenURI,
+        { ...context, tokenId, recipientAddress: nft.recipientAddress },
+        operationId
+      );
+    } catch (error) {
+      await this.releaseClaim(tokenId, operationId);
+      throw error;
+    }
+
+    const transaction = await transactionManagerService.getOperation(operationId);
+    return { transaction: transaction!, queued: true };
+  }
+
+  /**
+   * Release an NFT's mint claim so it can be minted again, e.g. after the mint failed
+   * @param tokenId Token ID
+   * @param operationId Operation ID the NFT was claimed with
+   */
+  async releaseClaim(tokenId: string, operationId: string): Promise<void> {
+    await NFT.updateOne(
+      { tokenId, mintOperationId: operationId },
+      { $unset: { mintOperationId: '', mintClaimedAt: '' } }
+    );
+  }
+}
+
+export default new MintService();
@@ -0,0 +1,168 @@
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+// Multicall3 is deployed at the same address on most EVM chains
+const DEFAULT_MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Concurrent eth_calls when falling back to individual calls
+const FALLBACK_CONCURRENCY = 10;
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+export interface MulticallCall {
+  target: string;
+  callData: string;
+  allowFailure?: boolean;
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Batches read-only contract calls through Multicall3. On chains where
+ * Multicall3 is not deployed the calls are made individually instead.
+ */
+export class MulticallService {
+  private provider: ethers.JsonRpcProvider;
+  private multicallAddress: string;
+  private multicall: ethers.Contract;
+  private batchSize: number;
+  private available?: boolean;
+
+  constructor() {
+    const rpcUrl = process.env.RPC_URL;
+
+    if (!rpcUrl) {
+      throw new Error('Missing RPC_URL');
+    }
+
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.multicallAddress = process.env.MULTICALL3_ADDRESS || DEFAULT_MULTICALL3_ADDRESS;
+    this.multicall = new ethers.Contract(this.multicallAddress, MULTICALL3_ABI, this.provider);
+    this.batchSize = parseInt(process.env.MULTICALL_BATCH_SIZE || '200');
+  }
+
+  /**
+   * Run read-only calls through Multicall3, in batches of MULTICALL_BATCH_SIZE
+   * @param calls Calls to make; failures are allowed unless a call says otherwise
+   * @returns One result per call, in order
+   */
+  async aggregate(calls: MulticallCall[]): Promise<MulticallResult[]> {
+    if (!(await this.isAvailable())) {
+      return this.callIndividually(calls);
+    }
+
+    const results: MulticallResult[] = [];
+
+    for (let start = 0; start < calls.length; start += this.batchSize) {
+      const batch = calls.slice(start, start + this.batchSize).map((call) => ({
+        target: call.target,
+        allowFailure: call.allowFailure !== false,
+        callData: call.callData,
+      }));
+
+      try {
+        const batchResults = await this.multicall.aggregate3.staticCall(batch);
+        for (const result of batchResults) {
+          results.push({ success: result.success, returnData: result.returnData });
+        }
+      } catch (error) {
+        console.error('Error running multicall batch:', error);
+        throw new Error('Failed to run multicall');
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Check (once) whether Multicall3 is deployed on the connected chain
+   * @returns true if calls can be batched
+   */
+  async isAvailable(): Promise<boolean> {
+    if (this.available === undefined) {
+      try {
+        this.available = (await this.provider.getCode(this.multicallAddress)) !== '0x';
+      } catch (error) {
+        console.error('Error checking for Multicall3:', error);
+        throw new Error('Failed to run multicall');
+      }
+
+      if (!this.available) {
+        console.warn(`⚠️  Multicall3 not deployed at ${this.multicallAddress}, reads will not be batched`);
+      }
+    }
+
+    return this.available;
+  }
+
+  /**
+   * Call the same function on one contract for many argument lists
+   * @param target Contract address
+   * @param contractInterface Contract interface
+   * @param functionName Function to call
+   * @param argsList Arguments for each call
+   * @returns Decoded result of each call, or null where the call reverted
+   */
+  async callEach(
+    target: string,
+    contractInterface: ethers.Interface,
+    functionName: string,
+    argsList: any[][]
+  ): Promise<(ethers.Result | null)[]> {
+    const results = await this.aggregate(
+      argsList.map((args) => ({
+        target,
+        callData: contractInterface.encodeFunctionData(functionName, args),
+      }))
+    );
+
+    return results.map((result) =>
+      result.success && result.returnData !== '0x'
+        ? contractInterface.decodeFunctionResult(functionName, result.returnData)
+        : null
+    );
+  }
+
+  /**
+   * Make each call with its own eth_call, a few at a time
+   * @param calls Calls to make
+   * @returns One result per call, in order
+   */
+  private async callIndividually(calls: MulticallCall[]): Promise<MulticallResult[]> {
+    const results: MulticallResult[] = [];
+
+    for (let start = 0; start < calls.length; start += FALLBACK_CONCURRENCY) {
+      const batch = calls.slice(start, start + FALLBACK_CONCURRENCY);
+
+      results.push(
+        ...(await Promise.all(
+          batch.map(async (call) => {
+            try {
+              const returnData = await this.provider.call({ to: call.target, data: call.callData });
+              return { success: true, returnData };
+            } catch (error) {
+              // A revert is a failed call; anything else (e.g. a network error) fails the batch
+              if (call.allowFailure !== false && ethers.isError(error, 'CALL_EXCEPTION')) {
+                return { success: false, returnData: '0x' };
+              }
+              console.error('Error running individual call:', error);
+              throw new Error('Failed to run multicall');
+            }
+          })
+        ))
+      );
+    }
+
+    return results;
+  }
+}
+
+export default new MulticallService();
@@ -0,0 +1,78 @@
+/**
+ * In-memory store for single-use nonces with a fixed time-to-live
+ * (in production, use Redis or similar)
+ */
+export interface NonceEntry<T> {
+  nonce: string;
+  data: T;
+  createdAt: Date;
+}
+
+export class NonceStore<T = undefined> {
+  private entries: Map<string, NonceEntry<T>> = new Map();
+  private ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+
+    // Clean up expired nonces every 5 minutes
+    setInterval(() => this.cleanup(), 5 * 60 * 1000);
+  }
+
+  /**
+   * Store a nonce with its associated data
+   * @param nonce Nonce string
+   * @param data Data bound to the nonce
+   */
+  set(nonce: string, data: T): void {
+    this.entries.set(nonce, { nonce, data, createdAt: new Date() });
+  }
+
+  /**
+   * Look up a nonce without consuming it
+   * @param nonce Nonce string
+   * @returns Stored entry, if any (possibly expired)
+   */
+  get(nonce: string): NonceEntry<T> | undefined {
+    return this.entries.get(nonce);
+  }
+
+  /**
+   * Look up and remove a nonce so it cannot be used again
+   * @param nonce Nonce string
+   * @returns Stored entry, if any (possibly expired)
+   */
+  consume(nonce: string): NonceEntry<T> | undefined {
+    const entry = this.entries.get(nonce);
+    this.entries.delete(nonce);
+    return entry;
+  }
+
+  /**
+   * Remove a nonce
+   * @param nonce Nonce string
+   */
+  delete(nonce: string): void {
+    this.entries.delete(nonce);
+  }
+
+  /**
+   * Check whether an entry is older than the store's TTL
+   * @param entry Stored entry
+   * @returns true if expired
+   */
+  isExpired(entry: NonceEntry<T>): boolean {
+    return Date.now() - entry.createdAt.getTime() > this.ttlMs;
+  }
+
+  /**
+   * Clean up expired nonces
+   */
+  private cleanup(): void {
+    for (const [nonce, entry] of this.entries.entries()) {
+      if (this.isExpired(entry)) {
+        this.entries.delete(nonce);
+      }
+    }
+  }
+}
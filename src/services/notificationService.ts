@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import Notification, { INotification } from '../models/Notification';
+
+export interface NotifyParams {
+  walletAddress: string;
+  type: string;
+  message: string;
+  tokenId?: string;
+  data?: any;
+}
+
+export class NotificationService {
+  /**
+   * Store a notification for a wallet
+   * @param params Recipient wallet and notification content
+   * @returns Stored notification
+   */
+  async notify(params: NotifyParams): Promise<INotification> {
+    try {
+      return await Notification.create({
+        walletAddress: params.walletAddress.toLowerCase(),
+        type: params.type,
+        message: params.message,
+        tokenId: params.tokenId,
+        data: params.data,
+      });
+    } catch (error) {
+      console.error('Error creating notification:', error);
+      throw new Error('Failed to create notification');
+    }
+  }
+
+  /**
+   * List a wallet's notifications, newest first
+   * @param walletAddress Wallet address
+   * @param unreadOnly Whether to leave out notifications already read
+   * @param limit Maximum number of notifications
+   * @returns Notifications
+   */
+  async listNotifications(
+    walletAddress: string,
+    unreadOnly: boolean,
+    limit: number = 50
+  ): Promise<INotification[]> {
+    const query: any = { walletAddress: walletAddress.toLowerCase() };
+    if (unreadOnly) {
+      query.readAt = { $exists: false };
+    }
+
+    return Notification.find(query).sort({ createdAt: -1 }).limit(limit);
+  }
+
+  /**
+   * Mark one of a wallet's notifications as read
+   * @param id Notification ID
+   * @param walletAddress Wallet the notification must belong to
+   * @returns Updated notification, or null if not found
+   */
+  async markRead(id: string, walletAddress: string): Promise<INotification | null> {
+    if (!mongoose.isValidObjectId(id)) {
+      return null;
+    }
+
+    const notification = await Notification.findOne({
+      _id: id,
+      walletAddress: walletAddress.toLowerCase(),
+    });
+    if (notification && !notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+    return notification;
+  }
+}
+
+export default new NotificationService();
@@ -0,0 +1,192 @@
+import jobQueueService from './jobQueueService';
+import transactionManagerService, {
+  SETTLED_STATUSES,
+  TRANSACTION_SETTLED_JOB,
+} from './transactionManagerService';
+import NFT from '../models/NFT';
+import ERC20Pullback from '../models/ERC20Pullback';
+import AuditLog from '../models/AuditLog';
+import { IChainTransaction } from '../models/ChainTransaction';
+import { recordBatchMintOutcome } from './batchJobs';
+import mintService from './mintService';
+import blockchainService from './blockchainService';
+
+/**
+ * Record an audit entry for an operation's outcome, attributed to the request that queued it
+ * @param action Audit action
+ * @param transaction Settled transaction
+ * @param metadata Extra details
+ * @param tokenId Token ID, if any
+ */
+const auditOutcome = async (
+  action: string,
+  transaction: IChainTransaction,
+  metadata: any,
+  tokenId?: string
+): Promise<void> => {
+  const { requestedBy, ipAddress, userAgent } = transaction.context;
+
+  await AuditLog.create({
+    action,
+    tokenId,
+    walletAddress: requestedBy.toLowerCase(),
+    txHash: transaction.txHash,
+    metadata: { operationId: transaction.operationId, ...metadata },
+    ipAddress: ipAddress || 'unknown',
+    userAgent: userAgent || 'unknown',
+    timestamp: new Date(),
+  });
+};
+
+/**
+ * Apply a direct mint's outcome to its NFT
+ * @param transaction Settled mint transaction
+ */
+const applyMint = async (transaction: IChainTransaction): Promise<void> => {
+  const { tokenId, recipientAddress } = transaction.context;
+
+  if (transaction.status !== 'confirmed') {
+    // The NFT can be minted again
+    await mintService.releaseClaim(tokenId, transaction.operationId);
+    await auditOutcome('nft_mint_failed', transaction, { error: transaction.error }, tokenId);
+    return;
+  }
+
+  // The indexer may already have moved the token on from minted
+  await NFT.updateOne({ tokenId }, { $set: { mintTxHash: transaction.txHash } });
+  await NFT.updateOne({ tokenId, status: 'uploaded' }, { $set: { status: 'minted' } });
+
+  await auditOutcome('nft_minted', transaction, {
+    tokenId,
+    txHash: transaction.txHash,
+    recipient: recipientAddress,
+  }, tokenId);
+};
+
+/**
+ * Apply a mint's outcome, and record it on its batch item if it was queued for a batch
+ * @param transaction Settled mint transaction
+ */
+const applyMintOutcome = async (transaction: IChainTransaction): Promise<void> => {
+  await applyMint(transaction);
+
+  if (transaction.context.batchId) {
+    await recordBatchMintOutcome(transaction);
+  }
+};
+
+/**
+ * Apply a token pull's outcome to its NFT
+ * @param transaction Settled pull transaction
+ */
+const applyPullToken = async (transaction: IChainTransaction): Promise<void> => {
+  const { tokenId, fromAddress, operatorAddress, expectedToAddress } = transaction.context;
+
+  if (transaction.status !== 'confirmed') {
+    await auditOutcome('token_pull_failed', transaction, {
+      fromAddress,
+      operatorAddress,
+      error: transaction.error,
+    }, tokenId);
+    return;
+  }
+
+  // The contract picks the destination, so it is read from the receipt
+  const toAddress = await blockchainService.findTransferRecipient(transaction.txHash!, tokenId);
+  if (!toAddress) {
+    console.warn(`Pull ${transaction.operationId} confirmed without a Transfer of token ${tokenId}`);
+  }
+
+  await NFT.updateOne(
+    { tokenId },
+    { $set: { status: 'pulled', pullTxHash: transaction.txHash, pullToAddress: toAddress || undefined } }
+  );
+
+  await auditOutcome('token_pulled', transaction, {
+    tokenId,
+    fromAddress,
+    toAddress,
+    expectedToAddress,
+    operatorAddress,
+    txHash: transaction.txHash,
+  }, tokenId);
+};
+
+/**
+ * Record an ERC-20 pullback's outcome in the pullback history
+ * @param transaction Settled pullback transaction
+ */
+const applyPullERC20 = async (transaction: IChainTransaction): Promise<void> => {
+  const { tokenContract, tokenInfo, fromAddress, amount, requestedBy } = transaction.context;
+  const confirmed = transaction.status === 'confirmed';
+
+  // Transactions that never made it on-chain have no hash to record a pullback under
+  if (transaction.txHash && transaction.blockNumber !== undefined) {
+    await ERC20Pullback.updateOne(
+      { txHash: transaction.txHash },
+      {
+        $setOnInsert: {
+          tokenContract: tokenContract.toLowerCase(),
+          tokenSymbol: tokenInfo.symbol,
+          tokenName: tokenInfo.name,
+          tokenDecimals: tokenInfo.decimals,
+          fromAddress: fromAddress.toLowerCase(),
+          operatorAddress: requestedBy.toLowerCase(),
+          amount,
+          txHash: transaction.txHash,
+          blockNumber: transaction.blockNumber,
+          timestamp: new Date(),
+          status: confirmed ? 'completed' : 'failed',
+          errorMessage: confirmed ? undefined : transaction.error,
+        },
+      },
+      { upsert: true }
+    );
+  }
+
+  await auditOutcome(confirmed ? 'erc20_pulled' : 'erc20_pull_failed', transaction, {
+    tokenContract,
+    tokenSymbol: tokenInfo.symbol,
+    fromAddress,
+    amount,
+    txHash: transaction.txHash,
+    error: transaction.error,
+  }, fromAddress);
+};
+
+const OUTCOME_HANDLERS: Record<string, (transaction: IChainTransaction) => Promise<void>> = {
+  mint: applyMintOutcome,
+  pull_token: applyPullToken,
+  pull_erc20: applyPullERC20,
+};
+
+/**
+ * Apply a confirmed or failed transaction's outcome to the records it concerns
+ * @param payload Operation ID of the transaction
+ */
+const applyTransactionOutcome = async (payload: { operationId: string }): Promise<void> => {
+  const transaction = await transactionManagerService.getOperation(payload.operationId);
+  if (!transaction) {
+    throw new Error(`Transaction not found: ${payload.operationId}`);
+  }
+
+  // Queued just before the outcome is saved; retry until it is
+  if (!SETTLED_STATUSES.includes(transaction.status)) {
+    throw new Error(`Transaction ${payload.operationId} not settled yet`);
+  }
+
+  // Transactions queued without a request context have no records to update
+  const handler = OUTCOME_HANDLERS[transaction.kind];
+  if (!handler || !transaction.context?.requestedBy) {
+    return;
+  }
+
+  await handler(transaction);
+};
+
+/**
+ * Register the handlers applying settled transactions' outcomes with the job queue
+ */
+export const registerOperationJobs = (): void => {
+  jobQueueService.registerHandler(TRANSACTION_SETTLED_JOB, applyTransactionOutcome);
+};
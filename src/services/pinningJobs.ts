@@ -0,0 +1,128 @@
+import jobQueueService from './jobQueueService';
+import documentStorageService from './documentStorageService';
+import ipfsService from './ipfsService';
+import NFT, { INFT } from '../models/NFT';
+
+export const PIN_DOCUMENT_JOB = 'pin_document';
+export const PIN_METADATA_JOB = 'pin_metadata';
+export const PIN_THUMBNAIL_JOB = 'pin_thumbnail';
+
+/**
+ * Load the NFT a pinning job refers to
+ * @param tokenId Token ID
+ * @returns NFT record
+ */
+const findNFT = async (tokenId: string): Promise<INFT> => {
+  const nft = await NFT.findOne({ tokenId });
+  if (!nft) {
+    throw new Error(`NFT not found: ${tokenId}`);
+  }
+  return nft;
+};
+
+/**
+ * Pin a blob from document storage to IPFS
+ * @param storageKey Storage key of the blob
+ * @param filename Name recorded with the pin
+ * @param expectedCID CID computed at upload, if known
+ * @returns Pinned CID
+ */
+const pinStoredBlob = async (
+  storageKey: string,
+  filename: string,
+  expectedCID?: string
+): Promise<string> => {
+  const data = await documentStorageService.readDocument(storageKey);
+  const cid = await ipfsService.pinFile(data, filename);
+
+  if (expectedCID && cid !== expectedCID) {
+    throw new Error(`Pinned CID ${cid} does not match expected ${expectedCID}`);
+  }
+  return cid;
+};
+
+/**
+ * Pin a stored document's ciphertext to IPFS and record the CID on its NFT
+ * @param payload Token ID of the document
+ */
+const pinDocument = async (payload: { tokenId: string }): Promise<void> => {
+  const nft = await findNFT(payload.tokenId);
+
+  // Already pinned by an earlier attempt
+  if (nft.documentMetadata.ipfsCID) {
+    return;
+  }
+
+  if (!nft.documentMetadata.storageKey) {
+    throw new Error(`Document ${payload.tokenId} has no stored ciphertext`);
+  }
+
+  // Documents uploaded before CIDs were computed locally still carry a temp_ placeholder
+  const cid = await pinStoredBlob(
+    nft.documentMetadata.storageKey,
+    nft.documentMetadata.originalFilename,
+    nft.encryptedCID.startsWith('temp_') ? undefined : nft.encryptedCID
+  );
+
+  await NFT.updateOne(
+    { tokenId: payload.tokenId },
+    {
+      encryptedCID: cid,
+      $set: { 'documentMetadata.ipfsCID': cid },
+    }
+  );
+  console.log(`Document ${payload.tokenId} pinned to IPFS:`, cid);
+};
+
+/**
+ * Pin a token's stored metadata JSON to IPFS
+ * @param payload Token ID of the document
+ */
+const pinMetadata = async (payload: { tokenId: string }): Promise<void> => {
+  const nft = await findNFT(payload.tokenId);
+
+  // Already pinned by an earlier attempt
+  if (nft.metadataPinnedAt) {
+    return;
+  }
+
+  const cid = await pinStoredBlob(
+    documentStorageService.getMetadataKey(payload.tokenId),
+    'metadata.json',
+    nft.metadataCID
+  );
+
+  await NFT.updateOne({ tokenId: payload.tokenId }, { metadataPinnedAt: new Date() });
+  console.log(`Metadata for ${payload.tokenId} pinned to IPFS:`, cid);
+};
+
+/**
+ * Pin a token's stored thumbnail image to IPFS
+ * @param payload Token ID of the document
+ */
+const pinThumbnail = async (payload: { tokenId: string }): Promise<void> => {
+  const nft = await findNFT(payload.tokenId);
+
+  // Already pinned by an earlier attempt
+  if (nft.thumbnailPinnedAt) {
+    return;
+  }
+
+  const cid = await pinStoredBlob(
+    documentStorageService.getThumbnailKey(payload.tokenId),
+    'thumbnail.png',
+    nft.thumbnailCID
+  );
+
+  await NFT.updateOne({ tokenId: payload.tokenId }, { thumbnailPinnedAt: new Date() });
+  console.log(`Thumbnail for ${payload.tokenId} pinned to IPFS:`, cid);
+};
+
+/**
+ * Register the IPFS pinning job handlers with the job queue
+ */
+export const registerPinningJobs = (): void => {
+  jobQueueService.registerHandler(PIN_DOCUMENT_JOB, pinDocument);
+  jobQueueService.registerHandler(PIN_METADATA_JOB, pinMetadata);
+  jobQueueService.registerHandler(PIN_THUMBNAIL_JOB, pinThumbnail);
+};
@@ -0,0 +1,369 @@
+import { ethers } from 'ethers';
+import { Types } from 'mongoose';
+import dotenv from 'dotenv';
+import { DOCUMENT_NFT_ABI } from '../abi';
+import multicallService from './multicallService';
+import NFT from '../models/NFT';
+import TokenTransfer from '../models/TokenTransfer';
+import ReconciliationReport, {
+  AutoFixPolicy,
+  IReconciliationDiscrepancy,
+  IReconciliationReport,
+  ReconciliationTrigger,
+} from '../models/ReconciliationReport';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+const AUTO_FIX_POLICIES: AutoFixPolicy[] = ['owner', 'status'];
+
+// NFTs read from the database per multicall round
+const RECONCILE_PAGE_SIZE = 1000;
+
+export class ReconciliationInProgressError extends Error {
+  constructor() {
+    super('A reconciliation run is already in progress');
+    this.name = 'ReconciliationInProgressError';
+  }
+}
+
+/**
+ * Compares the database's view of minted tokens with the chain. Owners are read
+ * in batches through Multicall3, every run is persisted as a report, and the
+ * policies in RECONCILE_AUTO_FIX (comma separated: owner, status) decide which
+ * discrepancies are corrected from chain state:
+ *  - owner: currentOwner is set to the on-chain owner
+ *  - status: minted tokens held by their recipient become redeemed, burned
+ *    tokens become revoked, and tokens with no on-chain record go back to uploaded
+ */
+export class ReconciliationService {
+  private contractAddress: string;
+  private contractInterface: ethers.Interface;
+  private defaultAutoFix: AutoFixPolicy[];
+  private alertWebhookUrl?: string;
+  private maxDiscrepancies: number;
+  private running: Promise<void> | null = null;
+
+  constructor() {
+    const contractAddress = process.env.CONTRACT_ADDRESS;
+
+    if (!contractAddress) {
+      throw new Error('Missing CONTRACT_ADDRESS');
+    }
+
+    this.contractAddress = contractAddress;
+    this.contractInterface = new ethers.Interface(DOCUMENT_NFT_ABI);
+    this.defaultAutoFix = ReconciliationService.parseAutoFix(process.env.RECONCILE_AUTO_FIX || '');
+    this.alertWebhookUrl = process.env.RECONCILE_ALERT_WEBHOOK_URL;
+    // Counts stay exact; only the per-token detail kept on a report is capped
+    this.maxDiscrepancies = parseInt(process.env.RECONCILE_MAX_DISCREPANCIES || '1000');
+  }
+
+  /**
+   * Parse a comma-separated list of auto-fix policies
+   * @param value e.g. "owner,status"
+   * @returns Policies
+   * @throws Error if a policy is unknown
+   */
+  static parseAutoFix(value: string): AutoFixPolicy[] {
+    const policies = value
+      .split(',')
+      .map((policy) => policy.trim())
+      .filter(Boolean) as AutoFixPolicy[];
+
+    const invalid = policies.find((policy) => !AUTO_FIX_POLICIES.includes(policy));
+    if (invalid) {
+      throw new Error(`Unknown reconciliation auto-fix policy: ${invalid}`);
+    }
+
+    return [...new Set(policies)];
+  }
+
+  /**
+   * Start a reconciliation run in the background
+   * @param trigger What started the run
+   * @param triggeredBy Operator wallet, for manual runs
+   * @param autoFix Policies to apply (defaults to RECONCILE_AUTO_FIX)
+   * @returns The report, in running state
+   * @throws ReconciliationInProgressError if a run is already in progress
+   */
+  async startReconciliation(
+    trigger: ReconciliationTrigger,
+    triggeredBy?: string,
+    autoFix?: AutoFixPolicy[]
+  ): Promise<IReconciliationReport> {
+    if (this.running) {
+      throw new ReconciliationInProgressError();
+    }
+
+    const report = await ReconciliationReport.create({
+      status: 'running',
+      trigger,
+      triggeredBy,
+      autoFix: autoFix || this.defaultAutoFix,
+      startedAt: new Date(),
+    });
+
+    this.running = this.reconcile(report)
+      .catch((error) => console.error('Error saving reconciliation report:', error))
+      .finally(() => {
+        this.running = null;
+      });
+
+    return report;
+  }
+
+  /**
+   * Run a reconciliation and wait for it to finish
+   * @param trigger What started the run
+   * @returns The finished report, or null if another run was already in progress
+   */
+  async runReconciliation(trigger: ReconciliationTrigger): Promise<IReconciliationReport | null> {
+    try {
+      const report = await this.startReconciliation(trigger);
+      await this.running;
+      return ReconciliationReport.findById(report._id);
+    } catch (error) {
+      if (error instanceof ReconciliationInProgressError) {
+        console.log('Reconciliation already in progress, skipping');
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List past reports, newest first, without per-token detail
+   * @param limit Maximum number of reports
+   * @returns Reports
+   */
+  async listReports(limit: number): Promise<IReconciliationReport[]> {
+    return ReconciliationReport.find().select('-discrepancies').sort({ startedAt: -1 }).limit(limit);
+  }
+
+  /**
+   * Get one report with its discrepancies
+   * @param id Report ID
+   * @returns Report, or null if not found
+   */
+  async getReport(id: string): Promise<IReconciliationReport | null> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      return null;
+    }
+    return ReconciliationReport.findById(id);
+  }
+
+  /**
+   * Check every minted and redeemed token against its on-chain owner
+   * @param report Report to fill in
+   */
+  private async reconcile(report: IReconciliationReport): Promise<void> {
+    console.log('🔄 Starting data reconciliation...');
+
+    try {
+      let lastId: Types.ObjectId | null = null;
+
+      for (;;) {
+        const nfts = await NFT.find({
+          status: { $in: ['minted', 'redeemed'] },
+          ...(lastId ? { _id: { $gt: lastId } } : {}),
+        })
+          .select('tokenId status recipientAddress currentOwner')
+          .sort({ _id: 1 })
+          .limit(RECONCILE_PAGE_SIZE);
+
+        if (nfts.length === 0) {
+          break;
+        }
+        lastId = nfts[nfts.length - 1]._id as Types.ObjectId;
+
+        const owners = await multicallService.callEach(
+          this.contractAddress,
+          this.contractInterface,
+          'ownerOf',
+          nfts.map((nft) => [nft.tokenId])
+        );
+
+        // ownerOf reverts for burned tokens as well as for ones never minted
+        const missingTokenIds = nfts.filter((_nft, i) => !owners[i]).map((nft) => nft.tokenId);
+        const burnedTokenIds = new Set(
+          missingTokenIds.length > 0
+            ? await TokenTransfer.distinct('tokenId', {
+                tokenId: { $in: missingTokenIds },
+                to: ethers.ZeroAddress,
+              })
+            : []
+        );
+
+        for (let i = 0; i < nfts.length; i++) {
+          const nft = nfts[i];
+          const databaseOwner = (nft.currentOwner || nft.recipientAddress).toLowerCase();
+          const chainOwner = owners[i] ? (owners[i]![0] as string).toLowerCase() : undefined;
+          report.counts.checked++;
+
+          let discrepancy: IReconciliationDiscrepancy;
+          if (!chainOwner) {
+            const burned = burnedTokenIds.has(nft.tokenId);
+            discrepancy = {
+              tokenId: nft.tokenId,
+              type: burned ? 'burned' : 'missing_on_chain',
+              databaseOwner,
+              chainOwner: burned ? ethers.ZeroAddress : undefined,
+              databaseStatus: nft.status,
+              fixes: [],
+            };
+            report.counts[burned ? 'burned' : 'missingOnChain']++;
+          } else if (chainOwner !== databaseOwner) {
+            discrepancy = {
+              tokenId: nft.tokenId,
+              type: 'owner_mismatch',
+              databaseOwner,
+              chainOwner,
+              databaseStatus: nft.status,
+              fixes: [],
+            };
+            report.counts.mismatched++;
+          } else {
+            report.counts.matched++;
+            continue;
+          }
+
+          console.log(
+            `Discrepancy found for token ${nft.tokenId} (${discrepancy.type}): ` +
+              `DB=${databaseOwner}, Chain=${chainOwner || 'none'}`
+          );
+
+          discrepancy.fixes = await this.applyFixes(discrepancy, nft.recipientAddress, report.autoFix);
+          if (discrepancy.fixes.length > 0) {
+            report.counts.fixed++;
+          }
+
+          if (report.discrepancies.length < this.maxDiscrepancies) {
+            report.discrepancies.push(discrepancy);
+          }
+        }
+      }
+
+      report.status = 'completed';
+      report.completedAt = new Date();
+      await report.save();
+
+      console.log(
+        `✅ Data reconciliation completed: ${report.counts.checked} checked, ` +
+          `${report.counts.mismatched} mismatched, ${report.counts.missingOnChain} missing on-chain, ` +
+          `${report.counts.burned} burned, ${report.counts.fixed} fixed`
+      );
+    } catch (error: any) {
+      console.error('Error during data reconciliation:', error);
+      report.status = 'failed';
+      report.error = error.message || 'Reconciliation failed';
+      report.completedAt = new Date();
+      await report.save();
+    }
+
+    await this.alert(report);
+  }
+
+  /**
+   * Correct one discrepancy from chain state, as far as the policies allow.
+   * Updates are conditional on the status read, so a change the indexer made
+   * in the meantime is not overwritten.
+   * @param discrepancy Discrepancy found
+   * @param recipientAddress Recipient the token was issued to
+   * @param autoFix Policies to apply
+   * @returns Corrections applied
+   */
+  private async applyFixes(
+    discrepancy: IReconciliationDiscrepancy,
+    recipientAddress: string,
+    autoFix: AutoFixPolicy[]
+  ): Promise<string[]> {
+    const update: Record<string, any> = {};
+
+    if (autoFix.includes('owner') && discrepancy.chainOwner) {
+      update.currentOwner = discrepancy.chainOwner;
+    }
+
+    if (autoFix.includes('status')) {
+      if (discrepancy.type === 'burned') {
+        update.status = 'revoked';
+      } else if (
+        discrepancy.databaseStatus === 'minted' &&
+        discrepancy.chainOwner === recipientAddress.toLowerCase()
+      ) {
+        update.status = 'redeemed';
+      }
+      // Tokens missing on chain are only reported: moving them back to
+      // 'uploaded' would make them mintable a second time
+    }
+
+    if (Object.keys(update).length === 0) {
+      return [];
+    }
+
+    try {
+      const result = await NFT.updateOne(
+        { tokenId: discrepancy.tokenId, status: discrepancy.databaseStatus },
+        { $set: update }
+      );
+      if (result.modifiedCount === 0) {
+        return [];
+      }
+    } catch (error) {
+      console.error(`Error correcting token ${discrepancy.tokenId}:`, error);
+      return [];
+    }
+
+    return Object.entries(update).map(([field, value]) => `${field} -> ${value}`);
+  }
+
+  /**
+   * Warn about a run that found discrepancies or failed, and post its summary
+   * to RECONCILE_ALERT_WEBHOOK_URL if configured
+   * @param report Finished report
+   */
+  private async alert(report: IReconciliationReport): Promise<void> {
+    const { counts } = report;
+    const discrepancies = counts.mismatched + counts.missingOnChain + counts.burned;
+
+    if (report.status === 'completed' && discrepancies === 0) {
+      return;
+    }
+
+    console.warn(
+      report.status === 'failed'
+        ? `⚠️  Reconciliation ${report._id} failed: ${report.error}`
+        : `⚠️  Reconciliation ${report._id} found ${discrepancies} discrepancies (${counts.fixed} fixed)`
+    );
+
+    if (!this.alertWebhookUrl) {
+      return;
+    }
+
+    try {
+      const response = await fetch(this.alertWebhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          event: 'reconciliation_alert',
+          reportId: String(report._id),
+          status: report.status,
+          trigger: report.trigger,
+          startedAt: report.startedAt,
+          completedAt: report.completedAt,
+          autoFix: report.autoFix,
+          counts,
+          error: report.error,
+        }),
+      });
+
+      if (!response.ok) {
+        console.error(`Reconciliation alert webhook returned ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Error sending reconciliation alert:', error);
+    }
+  }
+}
+
+export default new ReconciliationService();
@@ -0,0 +1,324 @@
+import net from 'net';
+import zlib from 'zlib';
+import dotenv from 'dotenv';
+import { PDF } from './fileTypeService';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+/**
+ * A single problem reported by a scanner
+ */
+export interface ScanFinding {
+  scanner: string;
+  type: string;
+  description: string;
+}
+
+export interface ScanResult {
+  clean: boolean;
+  findings: ScanFinding[];
+  scanners: string[];
+  scannedAt: Date;
+}
+
+/**
+ * A stage of the upload scanning pipeline
+ */
+export interface Scanner {
+  readonly name: string;
+  scan(buffer: Buffer, mimeType: string): Promise<ScanFinding[]>;
+}
+
+// PDF name keys that make a document run code or carry payloads when opened
+const PDF_ACTIVE_CONTENT: Record<string, { type: string; description: string }> = {
+  JavaScript: { type: 'javascript', description: 'PDF contains JavaScript' },
+  JS: { type: 'javascript', description: 'PDF contains JavaScript' },
+  Launch: { type: 'launch_action', description: 'PDF contains a launch action' },
+  EmbeddedFile: { type: 'embedded_file', description: 'PDF contains embedded files' },
+  EmbeddedFiles: { type: 'embedded_file', description: 'PDF contains embedded files' },
+  EF: { type: 'embedded_file', description: 'PDF contains embedded files' },
+  OpenAction: { type: 'open_action', description: 'PDF runs an action when opened' },
+  AA: { type: 'additional_actions', description: 'PDF contains event-triggered actions' },
+  // Encrypted content cannot be inspected here, and the PDF cannot be watermarked when served
+  Encrypt: { type: 'encrypted', description: 'PDF is encrypted' },
+};
+
+// Cap on inflated object stream size, so a compression bomb cannot exhaust memory
+const MAX_INFLATED_STREAM_BYTES = 16 * 1024 * 1024;
+
+// Reported when objects are hidden where the scanner cannot read them
+const UNINSPECTABLE_OBJECT_STREAM = {
+  type: 'uninspectable_object_stream',
+  description: 'PDF contains an object stream that could not be inspected',
+};
+
+/**
+ * Scanner that parses PDFs for active content: JavaScript, launch actions,
+ * embedded files and actions that run on open. Encrypted PDFs are reported too.
+ */
+export class PdfActiveContentScanner implements Scanner {
+  readonly name = 'pdf-active-content';
+
+  async scan(buffer: Buffer, mimeType: string): Promise<ScanFinding[]> {
+    if (mimeType !== PDF) {
+      return [];
+    }
+
+    // Objects may be hidden inside compressed object streams
+    const objectStreams = this.inflateObjectStreams(buffer);
+    const sources = [buffer.toString('latin1'), ...objectStreams.inflated];
+    const findings = new Map<string, ScanFinding>();
+
+    // Fail closed: content that cannot be inflated may be hiding anything
+    if (objectStreams.uninspectable) {
+      findings.set(UNINSPECTABLE_OBJECT_STREAM.type, {
+        scanner: this.name,
+        ...UNINSPECTABLE_OBJECT_STREAM,
+      });
+    }
+
+    for (const source of sources) {
+      for (const { name, valueStart } of this.readNames(source)) {
+        const match = PDF_ACTIVE_CONTENT[name];
+        if (!match || findings.has(match.type)) {
+          continue;
+        }
+
+        // An OpenAction that is a plain destination array only sets the initial view
+        if (name === 'OpenAction') {
+          const destinationArray = /\s*\[/y;
+          destinationArray.lastIndex = valueStart;
+          if (destinationArray.test(source)) {
+            continue;
+          }
+        }
+
+        findings.set(match.type, { scanner: this.name, ...match });
+      }
+    }
+
+    return [...findings.values()];
+  }
+
+  /**
+   * Read name tokens from PDF source, decoding #xx escapes
+   * (e.g. /J#61vaScript is /JavaScript)
+   */
+  private *readNames(source: string): Generator<{ name: string; valueStart: number }> {
+    const namePattern = /\/([^\s/<>[\]()%{}]+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = namePattern.exec(source)) !== null) {
+      const name = match[1].replace(/#([0-9a-fA-F]{2})/g, (_, hex) =>
+        String.fromCharCode(parseInt(hex, 16))
+      );
+      yield { name, valueStart: namePattern.lastIndex };
+    }
+  }
+
+  /**
+   * Inflate compressed object streams (/Type /ObjStm)
+   * @param buffer PDF contents
+   * @returns Inflated object stream contents, and whether any object stream
+   * could not be inflated (unsupported filter, corrupt data or over the size cap)
+   */
+  private inflateObjectStreams(buffer: Buffer): { inflated: string[]; uninspectable: boolean } {
+    const source = buffer.toString('latin1');
+    // The stream keyword, but not the tail of endstream
+    const streamPattern = /(?<!end)stream\r?\n/g;
+    const inflated: string[] = [];
+    let uninspectable = false;
+    let match: RegExpExecArray | null;
+
+    while ((match = streamPattern.exec(source)) !== null) {
+      const dataStart = streamPattern.lastIndex;
+      const dataEnd = source.indexOf('endstream', dataStart);
+
+      // The stream dictionary sits between the object header and the stream keyword
+      const objStart = source.lastIndexOf(' obj', match.index);
+      const dictionary = source.slice(Math.max(0, objStart), match.index).replace(/\s+/g, ' ');
+
+      // Unfiltered object streams are plain text and covered by the raw scan
+      if (dictionary.includes('/ObjStm') && dictionary.includes('/Filter')) {
+        const contents =
+          dataEnd === -1 ? null : this.inflateStream(dictionary, buffer.subarray(dataStart, dataEnd));
+        if (contents === null) {
+          uninspectable = true;
+        } else {
+          inflated.push(contents);
+        }
+      }
+
+      if (dataEnd === -1) {
+        break;
+      }
+      streamPattern.lastIndex = dataEnd;
+    }
+
+    return { inflated, uninspectable };
+  }
+
+  /**
+   * Inflate a Flate-compressed stream
+   * @param dictionary Stream dictionary, whitespace collapsed
+   * @param data Raw stream data
+   * @returns Inflated contents, or null for other filters, corrupt data or output over the size cap
+   */
+  private inflateStream(dictionary: string, data: Buffer): string | null {
+    if (!/\/Filter ?(\/FlateDecode|\[ ?\/FlateDecode ?\])/.test(dictionary)) {
+      return null;
+    }
+
+    try {
+      return zlib.inflateSync(data, { maxOutputLength: MAX_INFLATED_STREAM_BYTES }).toString('latin1');
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+export interface ClamAvOptions {
+  host?: string;
+  port?: number;
+  socketPath?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Scanner that sends files to a ClamAV daemon (clamd) using the INSTREAM command
+ */
+export class ClamAvScanner implements Scanner {
+  readonly name = 'clamav';
+  private options: ClamAvOptions;
+  private chunkSize = 64 * 1024;
+
+  constructor(options: ClamAvOptions) {
+    this.options = options;
+  }
+
+  async scan(buffer: Buffer): Promise<ScanFinding[]> {
+    const reply = await this.instream(buffer);
+
+    // Replies look like "stream: OK" or "stream: <signature> FOUND"
+    const result = reply.replace(/^stream:\s*/, '');
+    if (result === 'OK') {
+      return [];
+    }
+    if (result.endsWith(' FOUND')) {
+      return [
+        {
+          scanner: this.name,
+          type: 'malware',
+          description: result.slice(0, -' FOUND'.length),
+        },
+      ];
+    }
+
+    throw new Error(`ClamAV scan failed: ${reply}`);
+  }
+
+  /**
+   * Stream a buffer to clamd as length-prefixed chunks and read its reply
+   * @param buffer File contents
+   * @returns clamd reply without the trailing NUL
+   */
+  private instream(buffer: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.socketPath
+        ? net.createConnection(this.options.socketPath)
+        : net.createConnection(this.options.port || 3310, this.options.host || '127.0.0.1');
+      const replyChunks: Buffer[] = [];
+
+      socket.setTimeout(this.options.timeoutMs || 30000);
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < buffer.length; offset += this.chunkSize) {
+          const chunk = buffer.subarray(offset, offset + this.chunkSize);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.write(Buffer.alloc(4));
+      });
+
+      socket.on('data', (data) => replyChunks.push(data));
+      socket.on('end', () => {
+        resolve(Buffer.concat(replyChunks).toString('utf8').replace(/\0+$/, '').trim());
+      });
+      socket.on('timeout', () => {
+        socket.destroy();
+        reject(new Error('ClamAV scan timed out'));
+      });
+      socket.on('error', reject);
+    });
+  }
+}
+
+export class ScanService {
+  private scanners: Scanner[];
+
+  constructor(scanners?: Scanner[]) {
+    this.scanners = scanners || ScanService.createScanners();
+  }
+
+  /**
+   * Build the scanner pipeline; ClamAV is used when CLAMAV_HOST or CLAMAV_SOCKET is set
+   */
+  private static createScanners(): Scanner[] {
+    const scanners: Scanner[] = [new PdfActiveContentScanner()];
+
+    if (process.env.CLAMAV_HOST || process.env.CLAMAV_SOCKET) {
+      scanners.push(
+        new ClamAvScanner({
+          host: process.env.CLAMAV_HOST,
+          port: parseInt(process.env.CLAMAV_PORT || '3310'),
+          socketPath: process.env.CLAMAV_SOCKET,
+          timeoutMs: parseInt(process.env.CLAMAV_TIMEOUT_MS || '30000'),
+        })
+      );
+    }
+
+    return scanners;
+  }
+
+  /**
+   * Get the names of the configured scanners
+   * @returns Scanner names
+   */
+  getScannerNames(): string[] {
+    return this.scanners.map((scanner) => scanner.name);
+  }
+
+  /**
+   * Run an uploaded file through every scanner
+   * @param buffer File contents
+   * @param mimeType Verified MIME type of the file
+   * @returns Scan result; the file is clean only if no scanner reported findings
+   */
+  async scan(buffer: Buffer, mimeType: string): Promise<ScanResult> {
+    const findings: ScanFinding[] = [];
+
+    for (const scanner of this.scanners) {
+      try {
+        findings.push(...(await scanner.scan(buffer, mimeType)));
+      } catch (error) {
+        // Fail closed: a file that could not be scanned is not accepted
+        console.error(`Error running ${scanner.name} scanner:`, error);
+        throw new Error('Failed to scan document');
+      }
+    }
+
+    return {
+      clean: findings.length === 0,
+      findings,
+      scanners: this.getScannerNames(),
+      scannedAt: new Date(),
+    };
+  }
+}
+
+export default new ScanService();
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import ShareLink, { IShareLink } from '../models/ShareLink';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+export class ShareLinkService {
+  private secret: string;
+  private baseUrl: string;
+  private maxLifetimeHours: number;
+
+  constructor() {
+    this.secret = process.env.SHARE_LINK_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+    this.baseUrl = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3001}/api`;
+    this.maxLifetimeHours = parseInt(process.env.SHARE_LINK_MAX_HOURS || '720'); // 30 days
+  }
+
+  /**
+   * Create a signed, expiring share link for a document
+   * @param tokenId Token ID of the document
+   * @param createdBy Wallet creating the link
+   * @param expiresInHours Link lifetime in hours
+   * @param singleUse Whether the link stops working after the first view
+   * @returns Stored link and its shareable URL
+   */
+  async createLink(
+    tokenId: string,
+    createdBy: string,
+    expiresInHours: number,
+    singleUse: boolean
+  ): Promise<{ link: IShareLink; url: string }> {
+    if (!(expiresInHours > 0) || expiresInHours > this.maxLifetimeHours) {
+      throw new Error(`Link lifetime must be between 0 and ${this.maxLifetimeHours} hours`);
+    }
+
+    const link = await ShareLink.create({
+      linkId: crypto.randomBytes(12).toString('hex'),
+      tokenId,
+      createdBy: createdBy.toLowerCase(),
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+      singleUse,
+    });
+
+    return { link, url: this.getUrl(link) };
+  }
+
+  /**
+   * Build the shareable URL for a link
+   * @param link Share link
+   * @returns Redemption URL containing the signed token
+   */
+  getUrl(link: IShareLink): string {
+    return `${this.baseUrl}/share/${this.signToken(link.linkId, link.expiresAt)}`;
+  }
+
+  /**
+   * Verify a share token and find its link, without using it
+   * @param token Signed token from the share URL
+   * @returns The link, or null if the token is invalid, expired, revoked or used up
+   */
+  async findUsableLink(token: string): Promise<IShareLink | null> {
+    const linkId = this.verifyToken(token);
+    if (!linkId) {
+      return null;
+    }
+
+    return ShareLink.findOne({ linkId, ...this.usableFilter(new Date()) });
+  }
+
+  /**
+   * Consume one use of a link, once the document is known to be deliverable
+   * @param link Share link found by findUsableLink
+   * @returns The redeemed link, or null if it was revoked, expired or used up in the meantime
+   */
+  async redeem(link: IShareLink): Promise<IShareLink | null> {
+    const now = new Date();
+
+    // Atomically check the link is still usable and count this use
+    return ShareLink.findOneAndUpdate(
+      { linkId: link.linkId, ...this.usableFilter(now) },
+      { $inc: { useCount: 1 }, $set: { lastUsedAt: now } },
+      { new: true }
+    );
+  }
+
+  /**
+   * List links for a token that can still be redeemed
+   * @param tokenId Token ID of the document
+   * @returns Active links
+   */
+  async listActiveLinks(tokenId: string): Promise<IShareLink[]> {
+    return ShareLink.find({ tokenId, ...this.usableFilter(new Date()) }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Revoke a link
+   * @param link Share link
+   * @param revokedBy Wallet revoking the link
+   */
+  async revoke(link: IShareLink, revokedBy: string): Promise<void> {
+    link.revokedAt = new Date();
+    link.revokedBy = revokedBy.toLowerCase();
+    await link.save();
+  }
+
+  /**
+   * Query conditions matching links that can still be redeemed
+   */
+  private usableFilter(now: Date) {
+    return {
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now },
+      $or: [{ singleUse: false }, { useCount: 0 }],
+    };
+  }
+
+  /**
+   * Sign a link ID and expiry into an opaque URL token
+   */
+  private signToken(linkId: string, expiresAt: Date): string {
+    const payload = `${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Check a token's signature and expiry
+   * @returns Link ID if the token is authentic and unexpired
+   */
+  private verifyToken(token: string): string | null {
+    const [linkId, expires, signature] = token.split('.');
+    if (!linkId || !expires || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(`${linkId}.${expires}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    if (parseInt(expires) * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return linkId;
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+export default new ShareLinkService();
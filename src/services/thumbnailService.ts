@@ -0,0 +1,244 @@
+import path from 'path';
+import { createCanvas, loadImage, Canvas, SKRSContext2D, DOMMatrix, Path2D } from '@napi-rs/canvas';
+import dotenv from 'dotenv';
+import documentStorageService from './documentStorageService';
+import { computeCID } from './ipfsService';
+import jobQueueService from './jobQueueService';
+import { PIN_THUMBNAIL_JOB } from './pinningJobs';
+import { PDF, PNG, JPEG, DOCX, XLSX } from './fileTypeService';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+const TYPE_LABELS: Record<string, string> = {
+  [PDF]: 'PDF',
+  [PNG]: 'PNG',
+  [JPEG]: 'JPEG',
+  [DOCX]: 'DOCX',
+  [XLSX]: 'XLSX',
+};
+
+// pdf.js expects these browser globals; provide them before it is first loaded
+globalThis.DOMMatrix = globalThis.DOMMatrix || DOMMatrix;
+globalThis.Path2D = globalThis.Path2D || Path2D;
+
+interface CanvasAndContext {
+  canvas: Canvas;
+  context: SKRSContext2D;
+}
+
+/**
+ * Canvas factory handed to pdf.js so it draws with @napi-rs/canvas instead of node-canvas
+ */
+class NapiCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext): void {
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+  }
+}
+
+export interface PublishedThumbnail {
+  thumbnailCID: string;
+  image: string;
+}
+
+export class ThumbnailService {
+  private width: number;
+  private blurRadius: number;
+  private standardFontDataUrl: string;
+
+  constructor() {
+    this.width = parseInt(process.env.THUMBNAIL_WIDTH || '512');
+    this.blurRadius = parseInt(process.env.THUMBNAIL_BLUR_RADIUS || '12');
+    this.standardFontDataUrl =
+      path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+  }
+
+  /**
+   * Render a PNG preview of a document's first page
+   * @param buffer Document contents, or null to render a generic placeholder
+   * @param mimeType Verified MIME type of the document
+   * @param confidential Whether to blur and watermark the preview
+   * @returns PNG bytes
+   */
+  async renderThumbnail(buffer: Buffer | null, mimeType: string, confidential: boolean): Promise<Buffer> {
+    let canvas: Canvas | null = null;
+
+    try {
+      if (buffer && mimeType === PDF) {
+        canvas = await this.renderPdfPage(buffer);
+      } else if (buffer && (mimeType === PNG || mimeType === JPEG)) {
+        canvas = await this.renderImage(buffer);
+      }
+    } catch (error) {
+      console.warn('Could not render document preview, using a placeholder:', error);
+      canvas = null;
+    }
+
+    if (!canvas) {
+      return this.renderPlaceholder(mimeType).encode('png');
+    }
+
+    return (confidential ? this.obscure(canvas) : canvas).encode('png');
+  }
+
+  /**
+   * Render, store and compute the CID of a token's thumbnail
+   * @param tokenId Token ID
+   * @param buffer Document contents, or null to use a generic placeholder
+   * @param mimeType Verified MIME type of the document
+   * @param confidential Whether to blur and watermark the preview
+   * @param pin Whether to queue the thumbnail for pinning to IPFS
+   * @returns Thumbnail CID and the ipfs:// image URI for the token metadata
+   */
+  async createThumbnail(
+    tokenId: string,
+    buffer: Buffer | null,
+    mimeType: string,
+    confidential: boolean,
+    pin: boolean
+  ): Promise<PublishedThumbnail> {
+    try {
+      const png = await this.renderThumbnail(buffer, mimeType, confidential);
+      const thumbnailCID = await computeCID(png);
+
+      await documentStorageService.putDocument(
+        documentStorageService.getThumbnailKey(tokenId),
+        png,
+        'image/png'
+      );
+
+      if (pin) {
+        await jobQueueService.enqueue(PIN_THUMBNAIL_JOB, { tokenId });
+      }
+
+      return { thumbnailCID, image: `ipfs://${thumbnailCID}` };
+    } catch (error) {
+      console.error('Error creating thumbnail:', error);
+      throw new Error('Failed to create thumbnail');
+    }
+  }
+
+  /**
+   * Read a token's stored thumbnail
+   * @param tokenId Token ID
+   * @returns PNG bytes
+   */
+  async getThumbnail(tokenId: string): Promise<Buffer> {
+    return documentStorageService.readDocument(documentStorageService.getThumbnailKey(tokenId));
+  }
+
+  /**
+   * Rasterize the first page of a PDF at thumbnail width
+   * @param buffer PDF contents
+   * @returns Rendered page
+   */
+  private async renderPdfPage(buffer: Buffer): Promise<Canvas> {
+    const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf');
+    const canvasFactory = new NapiCanvasFactory();
+    const pdf = await pdfjsLib.getDocument({
+      data: new Uint8Array(buffer),
+      canvasFactory,
+      // Never compile PDF content into JavaScript functions
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      standardFontDataUrl: this.standardFontDataUrl,
+      verbosity: 0,
+    }).promise;
+
+    try {
+      const page = await pdf.getPage(1);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: this.width / unscaled.width });
+
+      const { canvas, context } = canvasFactory.create(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      return canvas;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * Scale an image document to thumbnail width
+   * @param buffer PNG or JPEG contents
+   * @returns Scaled image
+   */
+  private async renderImage(buffer: Buffer): Promise<Canvas> {
+    const image = await loadImage(buffer);
+    const height = Math.max(1, Math.round((image.height * this.width) / image.width));
+
+    const canvas = createCanvas(this.width, height);
+    canvas.getContext('2d').drawImage(image, 0, 0, this.width, height);
+    return canvas;
+  }
+
+  /**
+   * Render a page-shaped placeholder labelled with the document type
+   * @param mimeType MIME type of the document
+   * @returns Placeholder image
+   */
+  private renderPlaceholder(mimeType: string): Canvas {
+    const height = Math.round(this.width * 1.294); // US Letter proportions
+    const canvas = createCanvas(this.width, height);
+    const context = canvas.getContext('2d');
+
+    context.fillStyle = '#f1f3f5';
+    context.fillRect(0, 0, this.width, height);
+
+    context.fillStyle = '#868e96';
+    context.font = `bold ${Math.round(this.width / 6)}px sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(TYPE_LABELS[mimeType] || 'DOC', this.width / 2, height / 2);
+
+    return canvas;
+  }
+
+  /**
+   * Blur a preview beyond legibility and stamp it as confidential
+   * @param source Rendered preview
+   * @returns Obscured preview
+   */
+  private obscure(source: Canvas): Canvas {
+    const canvas = createCanvas(source.width, source.height);
+    const context = canvas.getContext('2d');
+
+    context.filter = `blur(${this.blurRadius}px)`;
+    context.drawImage(source, 0, 0);
+    context.filter = 'none';
+
+    context.save();
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate(-Math.PI / 6);
+    context.fillStyle = 'rgba(201, 42, 42, 0.6)';
+    context.font = `bold ${Math.round(canvas.width / 9)}px sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    for (let line = -2; line <= 2; line++) {
+      context.fillText('CONFIDENTIAL', 0, line * canvas.width * 0.3);
+    }
+    context.restore();
+
+    return canvas;
+  }
+}
+
+export default new ThumbnailService();
@@ -0,0 +1,543 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+import jobQueueService from './jobQueueService';
+import ChainTransaction, { ChainTransactionStatus, IChainTransaction } from '../models/ChainTransaction';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+export interface SubmitTransactionParams {
+  kind: string;
+  to: string;
+  method: string;
+  args: any[];
+  data: string;
+  context?: any;
+  operationId?: string; // Preset operation ID, e.g. one already recorded as a claim
+}
+
+export interface OperationResource {
+  operationId: string;
+  kind: string;
+  status: ChainTransactionStatus;
+  txHash: string | null;
+  nonce: number | null;
+  attempts: number;
+  receipt: {
+    blockNumber: number;
+    blockHash?: string;
+    gasUsed?: string;
+    effectiveGasPrice?: string;
+    status: 'success' | 'reverted';
+  } | null;
+  error: string | null;
+  createdAt: Date;
+  submittedAt: Date | null;
+  settledAt: Date | null;
+}
+
+interface FeeParams {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+// Job run once a transaction is confirmed or failed, to apply its outcome
+export const TRANSACTION_SETTLED_JOB = 'transaction_settled';
+
+export const SETTLED_STATUSES: ChainTransactionStatus[] = ['confirmed', 'failed'];
+
+// Headroom added to the node's gas estimate
+const GAS_LIMIT_MULTIPLIER_PERCENT = 120n;
+
+/**
+ * Sends every transaction from the PRIVATE_KEY wallet. Callers queue an intent
+ * and get an operation ID back straight away. A single worker loop assigns
+ * nonces in order, persists each signed transaction before broadcasting it,
+ * follows it to its receipt, and replaces transactions pending for longer than
+ * TX_STUCK_AFTER_MS with higher EIP-1559 fees. Run the worker on one instance
+ * per wallet.
+ */
+export class TransactionManagerService {
+  private provider: ethers.JsonRpcProvider;
+  private wallet: ethers.Wallet;
+  private confirmations: number;
+  private pollIntervalMs: number;
+  private stuckAfterMs: number;
+  private feeBumpPercent: number;
+  private maxFeeCap?: bigint;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+
+  constructor() {
+    const rpcUrl = process.env.RPC_URL;
+    const privateKey = process.env.PRIVATE_KEY;
+
+    if (!rpcUrl || !privateKey) {
+      throw new Error('Missing required environment variables for transaction manager');
+    }
+
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.wallet = new ethers.Wallet(privateKey, this.provider);
+    this.confirmations = parseInt(process.env.TX_CONFIRMATIONS || '1');
+    this.pollIntervalMs = parseInt(process.env.TX_MANAGER_POLL_MS || '3000');
+    this.stuckAfterMs = parseInt(process.env.TX_STUCK_AFTER_MS || '120000'); // 2 minutes
+    this.feeBumpPercent = parseInt(process.env.TX_FEE_BUMP_PERCENT || '15'); // Nodes require at least 10% to replace
+    this.maxFeeCap = process.env.TX_MAX_FEE_GWEI
+      ? ethers.parseUnits(process.env.TX_MAX_FEE_GWEI, 'gwei')
+      : undefined;
+  }
+
+  /**
+   * Get the address transactions are sent from
+   * @returns Wallet address
+   */
+  getAddress(): string {
+    return this.wallet.address;
+  }
+
+  /**
+   * Queue a contract call to be sent
+   * @param params Call to make and what it is for
+   * @returns Queued transaction, identified by its operation ID
+   */
+  async submit(params: SubmitTransactionParams): Promise<IChainTransaction> {
+    let transaction: IChainTransaction;
+    try {
+      transaction = await ChainTransaction.create({
+        operationId: params.operationId || crypto.randomUUID(),
+        kind: params.kind,
+        from: this.wallet.address,
+        to: params.to,
+        method: params.method,
+        args: params.args,
+        data: params.data,
+        context: params.context,
+        status: 'queued',
+      });
+    } catch (error) {
+      console.error('Error queuing transaction:', error);
+      throw new Error('Failed to queue transaction');
+    }
+
+    // Send right away if the worker runs in this process
+    if (this.timer) {
+      this.poll();
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Get a transaction by operation ID
+   * @param operationId Operation ID
+   * @returns Transaction, or null if not found
+   */
+  async getOperation(operationId: string): Promise<IChainTransaction | null> {
+    return ChainTransaction.findOne({ operationId });
+  }
+
+  /**
+   * Find the most recent transaction of a kind queued for a token
+   * @param kind Kind of operation, e.g. mint
+   * @param tokenId Token ID recorded in the transaction context
+   * @returns Transaction, or null if none
+   */
+  async findLatestForToken(kind: string, tokenId: string): Promise<IChainTransaction | null> {
+    return ChainTransaction.findOne({ kind, 'context.tokenId': tokenId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Describe a transaction as an operation resource for API clients
+   * @param transaction Transaction
+   * @returns Operation resource
+   */
+  toOperation(transaction: IChainTransaction): OperationResource {
+    return {
+      operationId: transaction.operationId,
+      kind: transaction.kind,
+      status: transaction.status,
+      txHash: transaction.txHash || null,
+      nonce: transaction.nonce ?? null,
+      attempts: transaction.attempts.length,
+      receipt:
+        transaction.blockNumber !== undefined
+          ? {
+              blockNumber: transaction.blockNumber,
+              blockHash: transaction.blockHash,
+              gasUsed: transaction.gasUsed,
+              effectiveGasPrice: transaction.effectiveGasPrice,
+              status: transaction.status === 'confirmed' ? 'success' : 'reverted',
+            }
+          : null,
+      error: transaction.error || null,
+      createdAt: transaction.createdAt,
+      submittedAt: transaction.submittedAt || null,
+      settledAt: SETTLED_STATUSES.includes(transaction.status) ? transaction.updatedAt : null,
+    };
+  }
+
+  /**
+   * Start the worker loop
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.poll();
+    console.log(`Transaction manager started for ${this.wallet.address}`);
+  }
+
+  /**
+   * Stop the worker loop, waiting for the round in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.draining;
+  }
+
+  /**
+   * Run a round unless the previous one is still in progress
+   */
+  private poll(): void {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = this.processTransactions()
+      .catch((error) => console.error('Error processing transactions:', error))
+      .finally(() => {
+        this.draining = null;
+      });
+  }
+
+  /**
+   * Follow in-flight transactions, then send queued ones
+   */
+  private async processTransactions(): Promise<void> {
+    await this.trackSubmitted();
+    await this.sendQueued();
+  }
+
+  /**
+   * Send queued transactions in the order they were queued, with consecutive nonces
+   */
+  private async sendQueued(): Promise<void> {
+    const queued = await ChainTransaction.find({ from: this.wallet.address.toLowerCase(), status: 'queued' }).sort({
+      createdAt: 1,
+    });
+    if (queued.length === 0) {
+      return;
+    }
+
+    let nonce = await this.getNextNonce();
+    for (const transaction of queued) {
+      if (!this.timer) {
+        return;
+      }
+      if (await this.send(transaction, nonce)) {
+        nonce++;
+      }
+    }
+  }
+
+  /**
+   * Get the next unused nonce. Transactions signed but not yet seen by the node
+   * still hold their nonce.
+   * @returns Nonce
+   */
+  private async getNextNonce(): Promise<number> {
+    const [pendingNonce, latest] = await Promise.all([
+      this.wallet.getNonce('pending'),
+      ChainTransaction.findOne({ from: this.wallet.address.toLowerCase(), status: 'submitted' }).sort({
+        nonce: -1,
+      }),
+    ]);
+
+    return Math.max(pendingNonce, latest?.nonce !== undefined ? latest.nonce + 1 : 0);
+  }
+
+  /**
+   * Sign and send a queued transaction
+   * @param transaction Queued transaction
+   * @param nonce Nonce to use
+   * @returns true if the nonce was used
+   */
+  private async send(transaction: IChainTransaction, nonce: number): Promise<boolean> {
+    let gasLimit: bigint;
+    try {
+      gasLimit = await this.provider.estimateGas({
+        from: this.wallet.address,
+        to: transaction.to,
+        data: transaction.data,
+      });
+    } catch (error: any) {
+      // Any other error (e.g. the node being unreachable) leaves it queued for the next round
+      if (!ethers.isError(error, 'CALL_EXCEPTION')) {
+        throw error;
+      }
+      // A call that would revert is failed without spending a nonce
+      await this.fail(transaction, `Transaction would revert: ${error.shortMessage || error.message}`);
+      return false;
+    }
+
+    transaction.nonce = nonce;
+    transaction.gasLimit = ((gasLimit * GAS_LIMIT_MULTIPLIER_PERCENT) / 100n).toString();
+
+    try {
+      await this.submitAttempt(transaction, await this.getFees());
+    } catch (error: any) {
+      if (!ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+        throw error;
+      }
+      await this.fail(transaction, 'Insufficient funds for gas');
+      return false;
+    }
+
+    console.log(`Transaction ${transaction.operationId} (${transaction.kind}) sent with nonce ${nonce}: ${transaction.txHash}`);
+    return true;
+  }
+
+  /**
+   * Sign a transaction at the given fees, record the attempt and broadcast it.
+   * The attempt is saved before broadcasting so a crash cannot lose track of it.
+   * A replacement only becomes the transaction's current attempt once the node
+   * accepts it; until then the earlier attempt is still the one tracked.
+   * @param transaction Transaction with its nonce and gas limit set
+   * @param fees EIP-1559 fees
+   * @returns true if the node accepted the attempt
+   */
+  private async submitAttempt(transaction: IChainTransaction, fees: FeeParams): Promise<boolean> {
+    const populated = await this.wallet.populateTransaction({
+      type: 2,
+      to: transaction.to,
+      data: transaction.data,
+      nonce: transaction.nonce,
+      gasLimit: transaction.gasLimit,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    });
+    const rawTransaction = await this.wallet.signTransaction(populated);
+    const txHash = ethers.Transaction.from(rawTransaction).hash!;
+    const now = new Date();
+    const replacing = transaction.status === 'submitted';
+
+    const makeCurrent = () => {
+      transaction.txHash = txHash;
+      transaction.rawTransaction = rawTransaction;
+      transaction.maxFeePerGas = fees.maxFeePerGas.toString();
+      transaction.maxPriorityFeePerGas = fees.maxPriorityFeePerGas.toString();
+      transaction.lastSubmittedAt = now;
+    };
+
+    transaction.attempts.push({
+      txHash,
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      submittedAt: now,
+    });
+    if (!replacing) {
+      transaction.status = 'submitted';
+      transaction.submittedAt = now;
+      makeCurrent();
+    }
+    await transaction.save();
+
+    if (!(await this.broadcast(rawTransaction, txHash))) {
+      return false;
+    }
+
+    if (replacing) {
+      makeCurrent();
+      await transaction.save();
+    }
+    return true;
+  }
+
+  /**
+   * Broadcast a signed attempt
+   * @param rawTransaction Signed transaction
+   * @param txHash Its hash
+   * @returns true if the node accepted the attempt or already had it
+   * @throws Error if the wallet cannot pay for gas
+   */
+  private async broadcast(rawTransaction: string, txHash: string): Promise<boolean> {
+    try {
+      await this.provider.broadcastTransaction(rawTransaction);
+      return true;
+    } catch (error: any) {
+      if (/already known/i.test(error?.message || '')) {
+        return true;
+      }
+      // Already mined or outbid by an earlier attempt: the receipt check settles it
+      if (ethers.isError(error, 'NONCE_EXPIRED') || ethers.isError(error, 'REPLACEMENT_UNDERPRICED')) {
+        console.warn(`Broadcast of ${txHash} not accepted: ${error.shortMessage || error.message}`);
+        return false;
+      }
+      if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+        throw error;
+      }
+      // Anything else (e.g. a network error) is retried once the transaction counts as stuck
+      console.error(`Error broadcasting ${txHash}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Settle mined transactions, fail ones whose nonce was taken, and replace stuck ones
+   */
+  private async trackSubmitted(): Promise<void> {
+    const submitted = await ChainTransaction.find({
+      from: this.wallet.address.toLowerCase(),
+      status: 'submitted',
+    }).sort({ nonce: 1 });
+    if (submitted.length === 0) {
+      return;
+    }
+
+    // Read before the receipts, so a transaction mined in between is found by its receipt
+    const minedNonce = await this.wallet.getNonce('latest');
+
+    for (const transaction of submitted) {
+      const receipt = await this.findReceipt(transaction);
+
+      if (receipt) {
+        if ((await receipt.confirmations()) >= this.confirmations) {
+          await this.settle(transaction, receipt);
+        }
+      } else if (transaction.nonce! < minedNonce) {
+        await this.fail(transaction, 'Nonce was used by another transaction');
+      } else if (Date.now() - transaction.lastSubmittedAt!.getTime() >= this.stuckAfterMs) {
+        await this.replace(transaction);
+      }
+    }
+  }
+
+  /**
+   * Find the receipt of whichever attempt of a transaction was mined
+   * @param transaction Submitted transaction
+   * @returns Receipt, or null if none was mined
+   */
+  private async findReceipt(transaction: IChainTransaction): Promise<ethers.TransactionReceipt | null> {
+    for (const attempt of [...transaction.attempts].reverse()) {
+      const receipt = await this.provider.getTransactionReceipt(attempt.txHash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Record a mined transaction's outcome
+   * @param transaction Submitted transaction
+   * @param receipt Receipt of the mined attempt
+   */
+  private async settle(transaction: IChainTransaction, receipt: ethers.TransactionReceipt): Promise<void> {
+    transaction.status = receipt.status === 1 ? 'confirmed' : 'failed';
+    transaction.txHash = receipt.hash;
+    transaction.blockNumber = receipt.blockNumber;
+    transaction.blockHash = receipt.blockHash;
+    transaction.gasUsed = receipt.gasUsed.toString();
+    transaction.effectiveGasPrice = receipt.gasPrice.toString();
+    transaction.confirmedAt = new Date();
+    if (receipt.status !== 1) {
+      transaction.error = 'Transaction reverted';
+    }
+    await this.saveSettled(transaction);
+
+    console.log(`Transaction ${transaction.operationId} (${transaction.kind}) ${transaction.status}: ${receipt.hash}`);
+  }
+
+  /**
+   * Replace a stuck transaction with the same nonce at higher fees
+   * @param transaction Submitted transaction
+   */
+  private async replace(transaction: IChainTransaction): Promise<void> {
+    const current = await this.getFees();
+    const bump = (value: string) => (BigInt(value) * BigInt(100 + this.feeBumpPercent) + 99n) / 100n;
+    const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+    let maxPriorityFeePerGas = max(bump(transaction.maxPriorityFeePerGas!), current.maxPriorityFeePerGas);
+    let maxFeePerGas = max(max(bump(transaction.maxFeePerGas!), current.maxFeePerGas), maxPriorityFeePerGas);
+
+    if (this.maxFeeCap && maxFeePerGas > this.maxFeeCap) {
+      if (BigInt(transaction.maxFeePerGas!) >= this.maxFeeCap) {
+        // Already at the cap: keep the transaction in the mempool as it is
+        console.warn(`Transaction ${transaction.operationId} stuck at the fee cap, rebroadcasting`);
+        transaction.lastSubmittedAt = new Date();
+        await transaction.save();
+        await this.broadcast(transaction.rawTransaction!, transaction.txHash!);
+        return;
+      }
+      maxFeePerGas = this.maxFeeCap;
+      maxPriorityFeePerGas = maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas;
+    }
+
+    console.warn(
+      `Transaction ${transaction.operationId} pending since ${transaction.lastSubmittedAt!.toISOString()}, ` +
+        `replacing at ${ethers.formatUnits(maxFeePerGas, 'gwei')} gwei`
+    );
+
+    try {
+      if (!(await this.submitAttempt(transaction, { maxFeePerGas, maxPriorityFeePerGas }))) {
+        // The earlier attempt stays current; try again once it has been pending another interval
+        transaction.lastSubmittedAt = new Date();
+        await transaction.save();
+      }
+    } catch (error) {
+      console.error(`Error replacing transaction ${transaction.operationId}:`, error);
+    }
+  }
+
+  /**
+   * Get current EIP-1559 fees, capped at TX_MAX_FEE_GWEI if set
+   * @returns Fees
+   */
+  private async getFees(): Promise<FeeParams> {
+    const feeData = await this.provider.getFeeData();
+
+    if (feeData.maxFeePerGas === null || feeData.maxPriorityFeePerGas === null) {
+      throw new Error('Network does not support EIP-1559 fees');
+    }
+
+    let { maxFeePerGas, maxPriorityFeePerGas } = feeData;
+    if (this.maxFeeCap && maxFeePerGas > this.maxFeeCap) {
+      maxFeePerGas = this.maxFeeCap;
+      maxPriorityFeePerGas = maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas;
+    }
+
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Save a confirmed or failed transaction and queue the job applying its
+   * outcome. The job is queued first: if the process stops in between, the job
+   * retries until the transaction's outcome is saved.
+   * @param transaction Settled transaction
+   */
+  private async saveSettled(transaction: IChainTransaction): Promise<void> {
+    await jobQueueService.enqueue(TRANSACTION_SETTLED_JOB, { operationId: transaction.operationId });
+    await transaction.save();
+  }
+
+  /**
+   * Mark a transaction failed
+   * @param transaction Transaction
+   * @param message Reason
+   */
+  private async fail(transaction: IChainTransaction, message: string): Promise<void> {
+    transaction.status = 'failed';
+    transaction.error = message;
+    await this.saveSettled(transaction);
+
+    console.error(`Transaction ${transaction.operationId} (${transaction.kind}) failed: ${message}`);
+  }
+}
+
+export default new TransactionManagerService();
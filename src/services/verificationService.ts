@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import NFT from '../models/NFT';
+import DocumentVersion, { IDocumentVersion } from '../models/DocumentVersion';
+import Watermark from '../models/Watermark';
+
+/**
+ * Compute the content hash anchoring a document: SHA-256 of its plaintext
+ * @param data Plaintext document
+ * @returns Hex-encoded hash
+ */
+export const computeContentHash = (data: Buffer): string => {
+  return crypto.createHash('sha256').update(data).digest('hex');
+};
+
+/**
+ * Check whether a string is a hex-encoded SHA-256 hash
+ * @param hash Candidate hash
+ */
+export const isValidContentHash = (hash: string): boolean => {
+  return /^(0x)?[0-9a-fA-F]{64}$/.test(hash);
+};
+
+export interface VerificationMatch {
+  tokenId: string;
+  version: number;
+  current: boolean;
+  issuer: string;
+  issuedAt: Date;
+  status: string;
+  mintTxHash?: string;
+  contractAddress?: string;
+  watermarkId?: string; // Set when the file is a watermarked copy served from this version
+}
+
+export class VerificationService {
+  /**
+   * Find the issued documents (any version) with a content hash: either the
+   * hash of the uploaded plaintext or of a watermarked copy served from it
+   * @param contentHash Hex-encoded SHA-256 hash
+   * @returns Matching tokens and versions, oldest first
+   */
+  async findMatches(contentHash: string): Promise<VerificationMatch[]> {
+    const hash = contentHash.toLowerCase().replace(/^0x/, '');
+
+    const found: { version: IDocumentVersion; watermarkId?: string }[] = (
+      await DocumentVersion.find({ contentHash: hash }).sort({ createdAt: 1 })
+    ).map((version) => ({ version }));
+
+    // Confidential PDFs are always served stamped, so recipients hold a watermarked copy
+    const watermark = await Watermark.findOne({ contentHash: hash });
+    if (watermark) {
+      const version = await DocumentVersion.findOne({
+        tokenId: watermark.tokenId,
+        version: watermark.version,
+      });
+      if (version) {
+        found.push({ version, watermarkId: watermark.watermarkId });
+      }
+    }
+
+    if (found.length === 0) {
+      return [];
+    }
+
+    // Quarantined uploads were never issued
+    const nfts = await NFT.find({
+      tokenId: { $in: [...new Set(found.map(({ version }) => version.tokenId))] },
+      status: { $ne: 'quarantined' },
+    });
+    const nftsByTokenId = new Map(nfts.map((nft) => [nft.tokenId, nft]));
+
+    const matches: VerificationMatch[] = [];
+    for (const { version, watermarkId } of found) {
+      const nft = nftsByTokenId.get(version.tokenId);
+      if (!nft) {
+        continue;
+      }
+
+      matches.push({
+        tokenId: nft.tokenId,
+        version: version.version,
+        current: version.version === nft.currentVersion,
+        issuer: nft.investorAddress,
+        issuedAt: version.createdAt,
+        status: nft.status,
+        mintTxHash: nft.mintTxHash,
+        contractAddress: process.env.CONTRACT_ADDRESS,
+        watermarkId,
+      });
+    }
+
+    return matches;
+  }
+}
+
+export default new VerificationService();
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { PDFDocument, PDFDict, PDFName, PDFString, StandardFonts, rgb } from 'pdf-lib';
+import dotenv from 'dotenv';
+import { computeContentHash } from './verificationService';
+import Watermark, { IWatermark } from '../models/Watermark';
+
+// Load environment variables before instantiating the service
+dotenv.config();
+
+export interface IssueWatermarkParams {
+  tokenId: string;
+  version: number;
+  viewerAddress: string;
+  role: string;
+  linkId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Thrown when a PDF cannot be stamped, e.g. because it is encrypted
+ */
+export class UnstampablePdfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnstampablePdfError';
+  }
+}
+
+export class WatermarkService {
+  private footerFontSize: number;
+
+  constructor() {
+    this.footerFontSize = parseFloat(process.env.WATERMARK_FONT_SIZE || '7');
+  }
+
+  /**
+   * Record a new forensic watermark for one served copy of a document
+   * @param params Document and viewer the copy is issued to
+   * @returns Stored watermark
+   */
+  async issueWatermark(params: IssueWatermarkParams): Promise<IWatermark> {
+    try {
+      return await Watermark.create({
+        watermarkId: this.generateWatermarkId(),
+        tokenId: params.tokenId,
+        version: params.version,
+        viewerAddress: params.viewerAddress.toLowerCase(),
+        role: params.role,
+        linkId: params.linkId,
+        issuedAt: new Date(),
+        ipAddress: params.ipAddress,
+        userAgent: params.userAgent,
+      });
+    } catch (error) {
+      console.error('Error issuing watermark:', error);
+      throw new Error('Failed to issue watermark');
+    }
+  }
+
+  /**
+   * Remove a watermark whose copy was never served, so it does not trace to a viewer
+   * @param watermark Watermark to remove
+   */
+  async discardWatermark(watermark: IWatermark): Promise<void> {
+    try {
+      await Watermark.deleteOne({ _id: watermark._id });
+    } catch (error) {
+      console.error('Error discarding watermark:', error);
+      throw new Error('Failed to discard watermark');
+    }
+  }
+
+  /**
+   * Find the copy a watermark ID was issued for
+   * @param watermarkId Watermark ID as printed in the document footer or metadata
+   * @returns Watermark, or null if unknown
+   */
+  async findWatermark(watermarkId: string): Promise<IWatermark | null> {
+    return Watermark.findOne({ watermarkId: watermarkId.trim().toUpperCase() });
+  }
+
+  /**
+   * Stamp a PDF with a visible footer on every page and matching document metadata.
+   * The stamped copy's hash is recorded on the watermark so the copy verifies too.
+   * @param pdf Plaintext PDF contents
+   * @param watermark Watermark of the copy being served
+   * @returns Watermarked PDF contents
+   * @throws UnstampablePdfError if the PDF is encrypted
+   */
+  async stampPdf(pdf: Buffer, watermark: IWatermark): Promise<Buffer> {
+    try {
+      // Encrypted PDFs are rejected at upload, but may predate that check
+      const document = await PDFDocument.load(pdf, { updateMetadata: false, ignoreEncryption: true });
+      if (document.isEncrypted) {
+        throw new UnstampablePdfError('Document is encrypted and cannot be watermarked');
+      }
+      const font = await document.embedFont(StandardFonts.Helvetica);
+
+      // Copies served through a share link are attributed to the link and its creator
+      const issuedTo = watermark.linkId
+        ? `Shared by ${watermark.viewerAddress} via link ${watermark.linkId}`
+        : `Issued to ${watermark.viewerAddress}`;
+      const footer =
+        `${issuedTo} | ${watermark.issuedAt.toISOString()} | ${watermark.watermarkId}`;
+
+      for (const page of document.getPages()) {
+        const { x, y, width } = page.getCropBox();
+        const size = Math.min(this.footerFontSize, (width - 24) / font.widthOfTextAtSize(footer, 1));
+
+        page.drawText(footer, {
+          x: x + (width - font.widthOfTextAtSize(footer, size)) / 2,
+          y: y + 8,
+          size,
+          font,
+          color: rgb(0.45, 0.45, 0.45),
+        });
+      }
+
+      // The same details in the document information dictionary survive cropping the footer
+      document.setModificationDate(watermark.issuedAt);
+      const info = document.context.lookup(document.context.trailerInfo.Info, PDFDict);
+      info.set(PDFName.of('WatermarkID'), PDFString.of(watermark.watermarkId));
+      info.set(PDFName.of('WatermarkRecipient'), PDFString.of(watermark.viewerAddress));
+      info.set(PDFName.of('WatermarkIssuedAt'), PDFString.of(watermark.issuedAt.toISOString()));
+      if (watermark.linkId) {
+        info.set(PDFName.of('WatermarkShareLink'), PDFString.of(watermark.linkId));
+      }
+
+      const stamped = Buffer.from(await document.save());
+
+      watermark.contentHash = computeContentHash(stamped);
+      await watermark.save();
+
+      return stamped;
+    } catch (error) {
+      if (error instanceof UnstampablePdfError) {
+        throw error;
+      }
+      console.error('Error watermarking PDF:', error);
+      throw new Error('Failed to watermark document');
+    }
+  }
+
+  /**
+   * Generate a watermark ID that is short enough to read off a printed page
+   * @returns Watermark ID, e.g. WM-3F9A-22C1-8B0D-71E4
+   */
+  private generateWatermarkId(): string {
+    const hex = crypto.randomBytes(8).toString('hex').toUpperCase();
+    return `WM-${hex.match(/.{4}/g)!.join('-')}`;
+  }
+}
+
+export default new WatermarkService();
@@ -0,0 +1,14 @@
+declare module 'ipfs-only-hash' {
+  interface HashOptions {
+    cidVersion?: 0 | 1;
+    rawLeaves?: boolean;
+    [option: string]: any;
+  }
+
+  function of(
+    content: string | Uint8Array | AsyncIterable<Uint8Array>,
+    options?: HashOptions
+  ): Promise<string>;
+
+  export { of };
+}
@@ -0,0 +1,12 @@
+import { SKRSContext2D, DOMMatrix as CanvasDOMMatrix, Path2D as CanvasPath2D } from '@napi-rs/canvas';
+
+// pdf.js is typed against the DOM, which this project does not load; thumbnails
+// are drawn with @napi-rs/canvas, whose classes stand in for the browser ones
+declare global {
+  interface CanvasRenderingContext2D extends SKRSContext2D {}
+
+  var DOMMatrix: typeof CanvasDOMMatrix | undefined;
+  var Path2D: typeof CanvasPath2D | undefined;
+}
+
+export {};